@@ -0,0 +1,105 @@
+/**
+ * Script of the note editors: new note and reply
+ */
+
+(function() {
+    const vscode = acquireVsCodeApi();
+    const data = JSON.parse(document.getElementById('webviewData').textContent);
+    const textarea = document.getElementById('noteText');
+    const charCount = document.getElementById('charCount');
+    const preview = document.getElementById('preview');
+    const suggestionEditor = document.getElementById('suggestionEditor');
+    const suggestionText = document.getElementById('suggestionText');
+
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+
+    textarea.addEventListener('input', function() {
+        const length = textarea.value.length;
+        charCount.textContent = String(length);
+        charCount.className = length > data.maxNoteLength ? 'char-counter error' : 'char-counter';
+    });
+
+    textarea.addEventListener('keydown', function(e) {
+        if (e.ctrlKey && e.key === 'Enter') {
+            saveNote();
+        }
+        if (e.key === 'Escape') {
+            cancel();
+        }
+    });
+
+    document.body.addEventListener('click', function(event) {
+        const button = event.target.closest('[data-action]');
+        if (!button) {
+            return;
+        }
+        switch (button.dataset.action) {
+            case 'write':
+                showTab(false);
+                break;
+            case 'preview':
+                showTab(true);
+                break;
+            case 'toggleSuggestion':
+                toggleSuggestion();
+                break;
+            case 'save':
+                saveNote();
+                break;
+            case 'cancel':
+                cancel();
+                break;
+        }
+    });
+
+    window.addEventListener('message', function(event) {
+        if (event.data.command === 'preview') {
+            preview.innerHTML = event.data.html || '<p class="file-info">' + data.messages.emptyPreview + '</p>';
+        }
+    });
+
+    function saveNote() {
+        const text = textarea.value.trim();
+        if (!text) {
+            alert(data.messages.emptyNote);
+            return;
+        }
+        if (text.length > data.maxNoteLength) {
+            alert(data.messages.noteTooLong);
+            return;
+        }
+        const severity = document.getElementById('severity');
+        const tags = document.getElementById('tags');
+        vscode.postMessage({
+            command: 'save',
+            text: text,
+            suggestion: suggestionEditor && !suggestionEditor.hidden ? suggestionText.value : undefined,
+            severity: severity ? severity.value : undefined,
+            tags: tags ? tags.value : undefined
+        });
+    }
+
+    function showTab(showPreview) {
+        document.getElementById('writeTab').classList.toggle('active', !showPreview);
+        document.getElementById('previewTab').classList.toggle('active', showPreview);
+        textarea.hidden = showPreview;
+        preview.hidden = !showPreview;
+        if (showPreview) {
+            vscode.postMessage({ command: 'renderPreview', text: textarea.value });
+        } else {
+            textarea.focus();
+        }
+    }
+
+    function toggleSuggestion() {
+        suggestionEditor.hidden = !suggestionEditor.hidden;
+        if (!suggestionEditor.hidden) {
+            suggestionText.focus();
+        }
+    }
+
+    function cancel() {
+        vscode.postMessage({ command: 'cancel' });
+    }
+})();
@@ -0,0 +1,277 @@
+/**
+ * Script of the notes list: search, filters and sort are applied here and
+ * kept in the webview state, so they survive reloads and live updates
+ */
+
+(function() {
+    const vscode = acquireVsCodeApi();
+    const data = JSON.parse(document.getElementById('webviewData').textContent);
+    const container = document.getElementById('notes');
+    const resultCount = document.getElementById('resultCount');
+    const DEFAULT_STATE = {
+        search: '', regex: false, fileGlob: '', author: '', status: 'open',
+        severity: '', tag: '', from: '', to: '', sort: 'file'
+    };
+    let notes = data.notes;
+    let state = Object.assign({}, DEFAULT_STATE, vscode.getState());
+    if (typeof data.fileGlob === 'string') {
+        state.fileGlob = data.fileGlob;
+        vscode.setState(state);
+    }
+
+    fillOptions();
+    Object.keys(DEFAULT_STATE).forEach(function(id) {
+        const control = document.getElementById(id);
+        if (control.type === 'checkbox') {
+            control.checked = state[id];
+        } else {
+            control.value = state[id];
+        }
+        const eventName = control.type === 'text' || control.type === 'search' ? 'input' : 'change';
+        control.addEventListener(eventName, function() {
+            state[id] = control.type === 'checkbox' ? control.checked : control.value;
+            vscode.setState(state);
+            render();
+        });
+    });
+    render();
+
+    window.addEventListener('message', function(event) {
+        if (event.data.command === 'setNotes') {
+            notes = event.data.notes;
+            fillOptions();
+            render();
+        } else if (event.data.command === 'setFileGlob') {
+            state.fileGlob = event.data.fileGlob;
+            document.getElementById('fileGlob').value = state.fileGlob;
+            vscode.setState(state);
+            render();
+        }
+    });
+
+    container.addEventListener('click', function(event) {
+        const button = event.target.closest('[data-action]');
+        const note = button && notes.find(function(n) { return n.id === button.dataset.noteId; });
+        if (!note) {
+            return;
+        }
+        switch (button.dataset.action) {
+            case 'open':
+                vscode.postMessage({ command: 'openFile', noteId: note.id });
+                break;
+            case 'resolve':
+            case 'reopen':
+                vscode.postMessage({
+                    command: 'setStatus',
+                    noteId: note.id,
+                    status: button.dataset.action === 'resolve' ? 'resolved' : 'open'
+                });
+                break;
+            case 'delete':
+                // Webviews can't show modals, the extension asks for confirmation
+                vscode.postMessage({ command: 'deleteNote', noteId: note.id });
+                break;
+        }
+    });
+
+    function fillOptions() {
+        setOptions('author', notes.map(function(n) { return n.author; }), function(author) { return author; });
+        setOptions('tag', [].concat.apply([], notes.map(function(n) { return n.tags; })), function(tag) { return '#' + tag; });
+    }
+
+    function setOptions(id, values, getLabel) {
+        const select = document.getElementById(id);
+        const unique = Array.from(new Set(values.concat(state[id] ? [state[id]] : []))).sort();
+        select.replaceChildren(select.options[0]);
+        unique.forEach(function(value) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = getLabel(value);
+            select.append(option);
+        });
+        select.value = state[id];
+    }
+
+    function getSearchMatcher() {
+        const search = document.getElementById('search');
+        search.classList.remove('invalid');
+        if (!state.search) {
+            return null;
+        }
+        if (state.regex) {
+            try {
+                const pattern = new RegExp(state.search, 'i');
+                return function(text) { return pattern.test(text); };
+            } catch (error) {
+                search.classList.add('invalid');
+                return null;
+            }
+        }
+        const needle = state.search.toLowerCase();
+        return function(text) { return text.toLowerCase().includes(needle); };
+    }
+
+    // Globs without a slash match at any depth, plain text matches anywhere in the path.
+    // A trailing /** also matches the folder itself, which notes can be about.
+    function getFileMatcher() {
+        const glob = state.fileGlob.trim();
+        if (!glob) {
+            return null;
+        }
+        if (!/[*?]/.test(glob)) {
+            return function(filePath) { return filePath.toLowerCase().includes(glob.toLowerCase()); };
+        }
+        const pattern = glob.includes('/') ? glob : '**/' + glob;
+        let source = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            if (pattern.slice(i) === '/**') {
+                source += '(?:/.*)?';
+                break;
+            } else if (char === '*' && pattern[i + 1] === '*') {
+                source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+                i += pattern[i + 2] === '/' ? 2 : 1;
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else {
+                source += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&');
+            }
+        }
+        const regExp = new RegExp('^' + source + '$', 'i');
+        return function(filePath) { return regExp.test(filePath); };
+    }
+
+    function getLocalDay(timestamp) {
+        const date = new Date(timestamp);
+        const pad = function(value) { return String(value).padStart(2, '0'); };
+        return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate());
+    }
+
+    function getVisibleNotes() {
+        const matchesSearch = getSearchMatcher();
+        const matchesFile = getFileMatcher();
+        const visible = notes.filter(function(note) {
+            const day = getLocalDay(note.timestamp);
+            const searchText = [note.text].concat(note.replies.map(function(r) { return r.body; })).join('\n');
+            return (!state.status || note.status === state.status) &&
+                (!state.severity || note.severity === state.severity) &&
+                (!state.author || note.author === state.author) &&
+                (!state.tag || note.tags.includes(state.tag)) &&
+                (!state.from || day >= state.from) &&
+                (!state.to || day <= state.to) &&
+                (!matchesFile || matchesFile(note.displayPath)) &&
+                (!matchesSearch || matchesSearch(searchText));
+        });
+        if (state.sort !== 'file') {
+            const order = state.sort === 'newest' ? -1 : 1;
+            visible.sort(function(a, b) { return order * a.timestamp.localeCompare(b.timestamp); });
+        }
+        return visible;
+    }
+
+    function render() {
+        const visible = getVisibleNotes();
+        resultCount.textContent = visible.length + ' / ' + countNotes(notes.length);
+        container.replaceChildren();
+
+        if (visible.length === 0) {
+            container.append(createElement('div', 'empty-state',
+                notes.length > 0 ? data.messages.noMatchingNotes : data.messages.noNotes));
+            return;
+        }
+
+        // Sorting by date lists notes across files, each with its file path
+        if (state.sort !== 'file') {
+            const group = createElement('div', 'file-group');
+            visible.forEach(function(note) { group.append(renderNote(note, true)); });
+            container.append(group);
+            return;
+        }
+
+        const groups = new Map();
+        visible.forEach(function(note) {
+            groups.set(note.displayPath, (groups.get(note.displayPath) || []).concat([note]));
+        });
+        groups.forEach(function(fileNotes, displayPath) {
+            const group = createElement('div', 'file-group');
+            const header = createElement('div', 'file-header');
+            header.append(
+                createElement('span', 'codicon codicon-file'),
+                createElement('span', 'file-path', displayPath),
+                createElement('span', 'note-count', countNotes(fileNotes.length))
+            );
+            const list = createElement('div', 'file-notes');
+            fileNotes.forEach(function(note) { list.append(renderNote(note, false)); });
+            group.append(header, list);
+            container.append(group);
+        });
+    }
+
+    function countNotes(count) {
+        return count > 1 ? data.messages.notesCount.replace('{count}', String(count)) : data.messages.oneNote;
+    }
+
+    function renderNote(note, showFile) {
+        const item = createElement('div', 'note-item ' + note.status);
+        const header = createElement('div', 'note-header');
+        header.append(createElement('span', 'line-number',
+            showFile ? note.displayPath + ' • ' + note.locationLabel : note.locationLabel));
+        if (note.status !== 'open') {
+            header.append(createElement('span', 'note-status', data.statusLabels[note.status]));
+        }
+        if (note.severity !== 'info') {
+            header.append(createElement('span', 'note-severity ' + note.severity, data.severityLabels[note.severity]));
+        }
+        note.tags.forEach(function(tag) {
+            header.append(createElement('span', 'note-tag', '#' + tag));
+        });
+
+        const actions = createElement('div', 'note-actions');
+        actions.append(
+            createButton(note, 'open', 'go-to-file', data.messages.openFile),
+            note.status === 'open'
+                ? createButton(note, 'resolve', 'check', data.messages.resolveNote)
+                : createButton(note, 'reopen', 'issue-reopened', data.messages.reopenNote),
+            createButton(note, 'delete', 'trash', data.messages.deleteNote)
+        );
+        header.append(actions);
+        // The HTML is rendered and sanitized by the extension
+        const text = createElement('div', 'note-text markdown');
+        text.innerHTML = note.textHtml;
+        item.append(header, text);
+
+        if (note.replies.length > 0) {
+            const replies = createElement('div', 'note-replies');
+            note.replies.forEach(function(reply) {
+                const replyItem = createElement('div', 'note-reply');
+                const body = createElement('div', 'markdown');
+                body.innerHTML = reply.bodyHtml;
+                replyItem.append(createElement('div', 'reply-author', reply.author), body);
+                replies.append(replyItem);
+            });
+            item.append(replies);
+        }
+        item.append(createElement('div', 'note-timestamp', note.author + ' • ' + note.timestampLabel));
+        return item;
+    }
+
+    function createButton(note, action, icon, title) {
+        const button = createElement('button', 'action-btn' + (action === 'delete' ? ' delete-btn' : ''));
+        button.title = title;
+        button.dataset.action = action;
+        button.dataset.noteId = note.id;
+        button.append(createElement('span', 'codicon codicon-' + icon));
+        return button;
+    }
+
+    function createElement(tag, className, text) {
+        const element = document.createElement(tag);
+        element.className = className;
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    }
+})();
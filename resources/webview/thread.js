@@ -0,0 +1,112 @@
+/**
+ * Script of the note thread: reply, edit and delete comments, and act on the suggestion
+ */
+
+(function() {
+    const vscode = acquireVsCodeApi();
+    const data = JSON.parse(document.getElementById('webviewData').textContent);
+    const replyText = document.getElementById('replyText');
+
+    // Drafts of another reviewer have no reply box
+    if (replyText) {
+        replyText.focus();
+
+        replyText.addEventListener('keydown', function(e) {
+            if (e.ctrlKey && e.key === 'Enter') {
+                reply();
+            }
+            if (e.key === 'Escape') {
+                vscode.postMessage({ command: 'close' });
+            }
+        });
+    }
+
+    document.body.addEventListener('click', function(event) {
+        const button = event.target.closest('[data-action]');
+        if (!button) {
+            return;
+        }
+        const comment = button.closest('.comment');
+        switch (button.dataset.action) {
+            case 'reply':
+                reply();
+                break;
+            case 'close':
+                vscode.postMessage({ command: 'close' });
+                break;
+            case 'editComment':
+                toggleCommentEditor(comment, true);
+                break;
+            case 'cancelEdit':
+                toggleCommentEditor(comment, false);
+                break;
+            case 'saveComment':
+                saveComment(comment);
+                break;
+            case 'deleteComment':
+                vscode.postMessage({ command: 'deleteComment', commentId: comment.dataset.commentId });
+                break;
+            case 'editSuggestion':
+                toggleSuggestionEditor(true);
+                break;
+            case 'cancelSuggestion':
+                toggleSuggestionEditor(false);
+                break;
+            case 'saveSuggestion':
+                vscode.postMessage({
+                    command: 'editSuggestion',
+                    suggestion: document.querySelector('.suggestion-editor textarea').value
+                });
+                break;
+            case 'applySuggestion':
+                vscode.postMessage({ command: 'applySuggestion' });
+                break;
+            case 'previewSuggestion':
+                vscode.postMessage({ command: 'previewSuggestion' });
+                break;
+        }
+    });
+
+    function isValidText(text) {
+        if (!text) {
+            alert(data.messages.emptyNote);
+            return false;
+        }
+        if (text.length > data.maxNoteLength) {
+            alert(data.messages.noteTooLong);
+            return false;
+        }
+        return true;
+    }
+
+    function reply() {
+        const text = replyText.value.trim();
+        if (isValidText(text)) {
+            vscode.postMessage({ command: 'reply', text: text });
+        }
+    }
+
+    function toggleCommentEditor(comment, editing) {
+        comment.querySelector('.comment-body').hidden = editing;
+        comment.querySelector('.comment-editor').hidden = !editing;
+        if (editing) {
+            comment.querySelector('.comment-editor textarea').focus();
+        }
+    }
+
+    function saveComment(comment) {
+        const text = comment.querySelector('.comment-editor textarea').value.trim();
+        if (isValidText(text)) {
+            vscode.postMessage({ command: 'editComment', commentId: comment.dataset.commentId, text: text });
+        }
+    }
+
+    function toggleSuggestionEditor(editing) {
+        const suggestion = document.querySelector('.suggestion');
+        suggestion.querySelector('.suggestion-diff').hidden = editing;
+        suggestion.querySelector('.suggestion-editor').hidden = !editing;
+        if (editing) {
+            suggestion.querySelector('.suggestion-editor textarea').focus();
+        }
+    }
+})();
@@ -2,13 +2,52 @@
  * Constants used throughout the Bubulle extension
  */
 
+import { DecorationConfig, NoteSeverity } from './types';
+
 export const EXTENSION_ID = 'bubulle';
 
 export const COMMANDS = {
     ADD_NOTE: 'bubulle.addNote',
+    ADD_PATH_NOTE: 'bubulle.addPathNote',
     SHOW_NOTES: 'bubulle.showNotes',
+    SHOW_PATH_NOTES: 'bubulle.showPathNotes',
     SHOW_BUBBLE: 'bubulle.showBubble',
-    CLICK_ICON: 'bubulle.clickIcon'
+    CLICK_ICON: 'bubulle.clickIcon',
+    TOGGLE_RESOLVED_NOTES: 'bubulle.toggleResolvedNotes',
+    EXPORT_MARKDOWN: 'bubulle.exportMarkdown',
+    EXPORT_GITHUB_REVIEW: 'bubulle.exportGitHubReview',
+    IMPORT_GITHUB_REVIEW: 'bubulle.importGitHubReview',
+    FIND_ORPHANED_NOTES: 'bubulle.findOrphanedNotes',
+    APPLY_SUGGESTION: 'bubulle.applySuggestion',
+    PREVIEW_SUGGESTION: 'bubulle.previewSuggestion',
+    NEXT_NOTE: 'bubulle.nextNote',
+    PREVIOUS_NOTE: 'bubulle.previousNote',
+    GO_TO_NOTE: 'bubulle.goToNote',
+    VIEW_ORIGINAL_REVISION: 'bubulle.viewOriginalRevision',
+    LIST_BRANCH_NOTES: 'bubulle.listBranchNotes',
+    PROMOTE_NOTE: 'bubulle.promoteNote',
+    CLEAN_UP_BRANCH_NOTES: 'bubulle.cleanUpBranchNotes',
+    START_REVIEW: 'bubulle.startReview',
+    FINISH_REVIEW: 'bubulle.finishReview',
+    COMMENTS_CREATE_NOTE: 'bubulle.comments.createNote',
+    COMMENTS_REPLY: 'bubulle.comments.reply',
+    COMMENTS_EDIT: 'bubulle.comments.editComment',
+    COMMENTS_SAVE: 'bubulle.comments.saveComment',
+    COMMENTS_CANCEL: 'bubulle.comments.cancelEdit',
+    COMMENTS_DELETE: 'bubulle.comments.deleteComment',
+    COMMENTS_DELETE_NOTE: 'bubulle.comments.deleteNote',
+    COMMENTS_APPLY_SUGGESTION: 'bubulle.comments.applySuggestion',
+    COMMENTS_PREVIEW_SUGGESTION: 'bubulle.comments.previewSuggestion',
+    TREE_OPEN_NOTE: 'bubulle.tree.openNote',
+    TREE_EDIT_NOTE: 'bubulle.tree.editNote',
+    TREE_DELETE_NOTE: 'bubulle.tree.deleteNote',
+    TREE_RESOLVE_NOTE: 'bubulle.tree.resolveNote',
+    TREE_REOPEN_NOTE: 'bubulle.tree.reopenNote',
+    REVIEWS_OPEN_NOTE: 'bubulle.reviews.openNote',
+    REVIEWS_EXPORT: 'bubulle.reviews.exportReview',
+    CHANGES_OPEN_NOTE: 'bubulle.changes.openNote',
+    CHANGES_REFRESH: 'bubulle.changes.refresh',
+    CODE_LENS_OPEN_NOTES: 'bubulle.codeLens.openNotes'
 } as const;
 
 export const WEBVIEW_TYPES = {
@@ -17,40 +56,222 @@ export const WEBVIEW_TYPES = {
     NOTES_LIST: 'bubulleNotes'
 } as const;
 
+export const VIEWS = {
+    NOTES_TREE: 'bubulleNotesTree',
+    REVIEWS_TREE: 'bubulleReviewsTree',
+    CHANGES_TREE: 'bubulleChangesTree'
+} as const;
+
+/**
+ * Keys of the workspace state and of the context used in when clauses
+ */
+export const STATE_KEYS = {
+    ACTIVE_REVIEW: 'bubulle.activeReview',
+    REVIEW_IN_PROGRESS_CONTEXT: 'bubulle.reviewInProgress'
+} as const;
+
 export const DEFAULT_CONFIG = {
-    NOTES_FILE: '.bubulle-notes.json',
+    NOTES_FILE: '.bubulle/notes.json',
+    LEGACY_NOTES_FILE: '.bubulle-notes.json',
+    UNKNOWN_AUTHOR: 'anonymous',
+    SEVERITY: 'info',
+    STORAGE_LOCATION: 'workspace',
+    DISPLAY_MODE: 'inline',
     MAX_NOTE_LENGTH: 1000,
     CLICK_DEBOUNCE_TIME: 100,
-    DECORATION_UPDATE_DELAY: 200,
+    CHANGES_RELOAD_DELAY: 500,
     MAX_LINE_LENGTH_DISPLAY: 60,
-    TRUNCATE_PREVIEW_LENGTH: 50
+    TRUNCATE_PREVIEW_LENGTH: 50,
+    ANCHOR_CONTEXT_LINES: 2,
+    ANCHOR_MATCH_THRESHOLD: 0.75,
+    GIT_TIMEOUT_MS: 5000
+} as const;
+
+/**
+ * Labels of statuses and severities, in English. They are localized where they
+ * are shown, like the messages of UI_STRINGS.
+ */
+export const NOTE_STATUS_LABELS = {
+    open: 'Open',
+    resolved: 'Resolved',
+    wontFix: "Won't fix"
+} as const;
+
+export const NOTE_SEVERITY_LABELS = {
+    info: 'Info',
+    nit: 'Nit',
+    suggestion: 'Suggestion',
+    issue: 'Issue',
+    blocker: 'Blocker'
+} as const;
+
+export const REVIEW_VERDICT_LABELS = {
+    approve: 'Approve',
+    comment: 'Comment',
+    requestChanges: 'Request changes'
+} as const;
+
+export const REVIEW_VERDICT_ICONS = {
+    approve: 'pass',
+    comment: 'comment',
+    requestChanges: 'request-changes'
 } as const;
 
+/**
+ * Decoration of each severity, used for tags without a decoration of their own
+ * and completed by the bubulle.categories setting
+ */
+export const DEFAULT_CATEGORY_DECORATIONS: Record<NoteSeverity, DecorationConfig> = {
+    info: {
+        iconText: '💬',
+        iconColor: '#0366d6',
+        backgroundColor: 'rgba(3, 102, 214, 0.1)',
+        overviewRulerColor: '#0366d6',
+        overviewRulerLane: 'right',
+        margin: '0 0 0 12px'
+    },
+    nit: {
+        iconText: '💭',
+        iconColor: '#6a737d',
+        backgroundColor: 'rgba(106, 115, 125, 0.1)',
+        overviewRulerColor: '#6a737d',
+        overviewRulerLane: 'right',
+        margin: '0 0 0 12px'
+    },
+    suggestion: {
+        iconText: '💡',
+        iconColor: '#28a745',
+        backgroundColor: 'rgba(40, 167, 69, 0.1)',
+        overviewRulerColor: '#28a745',
+        overviewRulerLane: 'right',
+        margin: '0 0 0 12px'
+    },
+    issue: {
+        iconText: '❗',
+        iconColor: '#e36209',
+        backgroundColor: 'rgba(227, 98, 9, 0.1)',
+        overviewRulerColor: '#e36209',
+        overviewRulerLane: 'center',
+        margin: '0 0 0 12px'
+    },
+    blocker: {
+        iconText: '⛔',
+        iconColor: '#d73a49',
+        backgroundColor: 'rgba(215, 58, 73, 0.1)',
+        overviewRulerColor: '#d73a49',
+        overviewRulerLane: 'full',
+        margin: '0 0 0 12px'
+    }
+};
+
+/**
+ * User-visible messages, in English. They are the keys of the l10n bundles:
+ * show them through vscode.l10n.t, which also fills their {placeholders}.
+ */
 export const UI_STRINGS = {
     ERRORS: {
         NO_ACTIVE_EDITOR: 'No active editor found.',
-        INVALID_PARAMS: 'Paramètres invalides pour la note',
-        ADD_NOTE_ERROR: "Erreur lors de l'ajout de la note",
-        DELETE_NOTE_ERROR: 'Erreur lors de la suppression de la note',
-        UPDATE_NOTE_ERROR: 'Erreur lors de la mise à jour de la note',
-        SAVE_ERROR: 'Erreur lors de la sauvegarde des notes',
-        LOAD_ERROR: 'Erreur lors du chargement des notes',
-        CORRUPTED_FILE: 'Fichier de notes corrompu (JSON invalide)',
-        OPEN_FILE_ERROR: "Impossible d'ouvrir le fichier"
+        INVALID_PARAMS: 'Invalid note parameters',
+        ADD_NOTE_ERROR: 'Error while adding the note',
+        UPDATE_NOTE_ERROR: 'Error while updating the note',
+        SAVE_ERROR: 'Error while saving notes',
+        LOAD_ERROR: 'Error while loading notes',
+        CORRUPTED_FILE: 'Corrupted notes file (invalid JSON)',
+        OPEN_FILE_ERROR: 'Unable to open the file',
+        MIGRATION_ERROR: 'Error while migrating old notes',
+        EXPORT_ERROR: 'Error while exporting notes',
+        IMPORT_ERROR: 'Error while importing the review',
+        INVALID_REVIEW_FILE: 'No GitHub review comment found in this file',
+        APPLY_SUGGESTION_ERROR: 'Unable to apply the suggestion',
+        MOVE_NOTES_ERROR: 'Error while moving notes',
+        ACTIVATION_ERROR: 'Failed to activate the Bubulle extension',
+        DRAFT_READ_ONLY: 'Only {author} can change this draft note until their review is finished',
+        FINISH_REVIEW_ERROR: 'Error while finishing the review',
+        REVISION_UNAVAILABLE: "Unable to read the file at commit {commit}",
+        NO_PATH_SELECTED: 'No file or folder selected'
     },
     SUCCESS: {
-        NOTE_ADDED: 'Note ajoutée',
-        NOTE_UPDATED: 'Note mise à jour',
-        NOTE_DELETED: 'Note supprimée'
+        NOTE_ADDED: 'Note added',
+        NOTE_UPDATED: 'Note updated',
+        NOTE_DELETED: 'Note deleted',
+        REPLY_ADDED: 'Reply added',
+        NOTE_PROMOTED: 'The note is now global and shown on every branch',
+        STATUS_CHANGED: 'Note marked as: {status}',
+        COMMENT_DELETED: 'Comment deleted',
+        REPORT_COPIED: 'Review report copied to the clipboard',
+        REPORT_SAVED: 'Review report saved to {path}',
+        REVIEW_EXPORTED: '{count} review comment(s) exported to {path}',
+        REVIEW_IMPORTED: '{count} discussion(s) imported',
+        NOTES_ARCHIVED: '{count} note(s) archived to {path}',
+        NOTES_DELETED: '{count} note(s) deleted',
+        NOTE_REATTACHED: 'Note reattached to {fileName}',
+        SUGGESTION_APPLIED: 'Suggestion applied, note resolved',
+        SUGGESTION_UPDATED: 'Suggestion updated',
+        LABELS_UPDATED: 'Severity and tags updated',
+        NOTES_MOVED: '{count} note(s) moved to {location}',
+        REVIEW_STARTED: 'Review started: new notes are drafts until you finish the review',
+        REVIEW_FINISHED: 'Review finished: {count} note(s) published'
     },
     PROMPTS: {
-        DELETE_CONFIRM: 'Supprimer la note de {fileName} (Ligne {line}) ?\n\n"{text}"',
-        DELETE_FROM_LIST: 'Êtes-vous sûr de vouloir supprimer cette note ?',
-        EMPTY_NOTE: 'La note ne peut pas être vide',
-        NOTE_TOO_LONG: 'La note ne peut pas dépasser 1000 caractères'
+        DELETE_CONFIRM: 'Delete the note on {fileName} ({line})?\n\n"{text}"',
+        DELETE_COMMENT_CONFIRM: 'Delete the comment by {author}?\n\n"{text}"',
+        EMPTY_NOTE: 'The note cannot be empty',
+        NOTE_TOO_LONG: 'The note cannot be longer than {max} characters',
+        NATIVE_COMMENT_PROMPT: 'Add a Bubulle note...',
+        NATIVE_COMMENT_PLACEHOLDER: 'Type your note here...',
+        PICK_BRANCH_NOTE: '{count} note(s) from other branches',
+        DELETED_BRANCH_NOTES: '{count} note(s) belong to branches deleted locally: {branches}. What should happen to these notes?',
+        DELETED_FILE_NOTES: '{fileName} was deleted with {count} note(s). What should happen to these notes?',
+        SUGGESTION_CODE_CHANGED: 'The code changed since the suggestion was written. Replace the current code anyway?',
+        PICK_NOTE: 'Search notes by text, file or tag',
+        PICK_SEVERITY: 'Note severity',
+        TAGS_INPUT: 'Tags separated by commas or spaces, for example: security, perf',
+        PICK_EXPORT_FILTER: 'Filter by severity or tag (no selection: all notes)',
+        PICK_ORPHANED_NOTE: '{count} note(s) on missing files: pick a note to reattach, archive or delete',
+        MOVE_NOTES: 'The notes location changed. Move the {count} existing note(s) to {location}?',
+        PICK_CODE_LENS_NOTE: '{count} notes on these lines: pick one to open',
+        PICK_VERDICT: 'Verdict of the review of {count} draft note(s)',
+        REVIEW_SUMMARY: 'Overall summary of the review (optional)'
     },
     INFO: {
-        NO_NOTES_FOUND: 'Aucune note trouvée.',
-        NOTE_NOT_FOUND: 'Note non trouvée, elle a peut-être déjà été supprimée'
+        NO_NOTES_FOUND: 'No notes found.',
+        UNKNOWN_DATE: 'Unknown date',
+        LINE_LABEL: 'Line {line}',
+        LINES_LABEL: 'Lines {start}-{end}',
+        WHOLE_FILE_LABEL: 'Whole file',
+        WHOLE_FOLDER_LABEL: 'Whole folder',
+        NOTE_NOT_FOUND: 'Note not found, it may already have been deleted',
+        NOTES_MIGRATED: '{count} note(s) migrated to {location}',
+        RESOLVED_NOTES_SHOWN: 'Resolved notes shown',
+        RESOLVED_NOTES_HIDDEN: 'Resolved notes hidden',
+        NOTE_OUTDATED: "⚠️ Outdated note: the original code can't be found",
+        OUTSIDE_WORKSPACE: 'Outside the workspace',
+        OPEN_NOTES_COUNT: '{count} open note(s)',
+        CODE_LENS_TITLE: '💬 {count} note(s) · {open} open',
+        NO_NOTES_TO_EXPORT: 'No notes to export',
+        NO_SUGGESTION_AT_CURSOR: 'No suggestion on this line',
+        SUGGESTION_LABEL: 'Suggestion',
+        SUGGESTION_APPLIED_LABEL: 'Suggestion applied',
+        EDITED_LABEL: '(edited)',
+        NO_ORPHANED_NOTES: 'No orphaned notes: every annotated file exists',
+        DEBUG_NOTES: 'Debug: found {count} notes for {filePath}\nNotes file: {notesFilePath}',
+        REVIEW_IN_PROGRESS: 'A review is already in progress',
+        NO_REVIEW_IN_PROGRESS: 'No review in progress',
+        DRAFT_LABEL: 'Draft',
+        REVIEW_STATUS: 'Review: {count} draft(s)',
+        REVIEW_NOTES_COUNT: '{count} note(s)',
+        REVISION_LABEL: 'Written on commit {commit}',
+        REVISION_CHANGED: 'the file changed since',
+        NO_REVISION_AT_CURSOR: 'No note written against a git commit on this line',
+        BRANCH_LABEL: 'Branch {branch}',
+        NO_OTHER_BRANCH_NOTES: 'No notes from other branches',
+        NO_BRANCH_NOTE_AT_CURSOR: 'No branch note on this line',
+        NO_DELETED_BRANCH_NOTES: 'No notes of deleted branches',
+        REVIEW_COMMENTS_SKIPPED: '{count} discussion(s) skipped: file not found, already imported or on an older version of the code'
+    },
+    REPORT: {
+        TITLE: 'Code review',
+        SUMMARY: 'Exported on {date} • {count} note(s) in {files} file(s)',
+        ORIGINAL_CODE: 'Original code, not found in the current version of the file:'
     }
 } as const;
@@ -8,6 +8,7 @@
 import * as vscode from 'vscode';
 import { COMMANDS, UI_STRINGS } from './constants';
 import { NotesManager } from './managers/NotesManager';
+import { getWorkingFilePath } from './utils/gitUtils';
 
 /**
  * Extension activation function
@@ -24,7 +25,7 @@ export function activate(context: vscode.ExtensionContext): void {
         context.subscriptions.push(notesManager);
     } catch (error) {
         console.error('Error activating Bubulle extension:', error);
-        vscode.window.showErrorMessage('Failed to activate Bubulle extension');
+        vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.ACTIVATION_ERROR));
     }
 }
 
@@ -37,7 +38,13 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
         async (uri: vscode.Uri, line: number) => {
             const editor = vscode.window.activeTextEditor;
             if (!editor) {
-                vscode.window.showWarningMessage(UI_STRINGS.ERRORS.NO_ACTIVE_EDITOR);
+                vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.ERRORS.NO_ACTIVE_EDITOR));
+                return;
+            }
+
+            // Notes on a selection are about that code rather than a whole line
+            if (line === undefined && !editor.selection.isEmpty) {
+                await notesManager.addNoteForSelection(editor);
                 return;
             }
 
@@ -48,6 +55,16 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
         }
     );
 
+    const addPathNoteCommand = vscode.commands.registerCommand(
+        COMMANDS.ADD_PATH_NOTE,
+        async (uri?: vscode.Uri) => {
+            const filePath = getCommandPath(uri);
+            if (filePath) {
+                await notesManager.addPathNote(filePath);
+            }
+        }
+    );
+
     const showNotesCommand = vscode.commands.registerCommand(
         COMMANDS.SHOW_NOTES, 
         () => {
@@ -55,6 +72,16 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
         }
     );
 
+    const showPathNotesCommand = vscode.commands.registerCommand(
+        COMMANDS.SHOW_PATH_NOTES,
+        (uri?: vscode.Uri) => {
+            const filePath = getCommandPath(uri);
+            if (filePath) {
+                notesManager.showNotesForPath(filePath);
+            }
+        }
+    );
+
     const showBubbleCommand = vscode.commands.registerCommand(
         COMMANDS.SHOW_BUBBLE,
         (uri: vscode.Uri, line: number) => {
@@ -66,6 +93,71 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
         }
     );
 
+    const toggleResolvedNotesCommand = vscode.commands.registerCommand(
+        COMMANDS.TOGGLE_RESOLVED_NOTES,
+        () => notesManager.toggleResolvedNotes()
+    );
+
+    const exportMarkdownCommand = vscode.commands.registerCommand(
+        COMMANDS.EXPORT_MARKDOWN,
+        (uri?: vscode.Uri) => notesManager.exportMarkdown(uri)
+    );
+
+    const exportGitHubReviewCommand = vscode.commands.registerCommand(
+        COMMANDS.EXPORT_GITHUB_REVIEW,
+        () => notesManager.exportGitHubReview()
+    );
+
+    const importGitHubReviewCommand = vscode.commands.registerCommand(
+        COMMANDS.IMPORT_GITHUB_REVIEW,
+        () => notesManager.importGitHubReview()
+    );
+
+    const findOrphanedNotesCommand = vscode.commands.registerCommand(
+        COMMANDS.FIND_ORPHANED_NOTES,
+        () => notesManager.findOrphanedNotes()
+    );
+
+    const listBranchNotesCommand = vscode.commands.registerCommand(
+        COMMANDS.LIST_BRANCH_NOTES,
+        () => notesManager.listBranchNotes()
+    );
+
+    const promoteNoteCommand = vscode.commands.registerCommand(
+        COMMANDS.PROMOTE_NOTE,
+        () => notesManager.promoteNote()
+    );
+
+    const cleanUpBranchNotesCommand = vscode.commands.registerCommand(
+        COMMANDS.CLEAN_UP_BRANCH_NOTES,
+        () => notesManager.cleanUpBranchNotes()
+    );
+
+    const nextNoteCommand = vscode.commands.registerCommand(
+        COMMANDS.NEXT_NOTE,
+        () => notesManager.goToNextNote()
+    );
+
+    const previousNoteCommand = vscode.commands.registerCommand(
+        COMMANDS.PREVIOUS_NOTE,
+        () => notesManager.goToPreviousNote()
+    );
+
+    const goToNoteCommand = vscode.commands.registerCommand(
+        COMMANDS.GO_TO_NOTE,
+        () => notesManager.goToNote()
+    );
+
+    const startReviewCommand = vscode.commands.registerCommand(
+        COMMANDS.START_REVIEW,
+        () => notesManager.startReview()
+    );
+
+    const finishReviewCommand = vscode.commands.registerCommand(
+        COMMANDS.FINISH_REVIEW,
+        () => notesManager.finishReview()
+    );
+
     const debugCommand = vscode.commands.registerCommand(
         'bubulle.debug',
         () => {
@@ -73,9 +165,9 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
             if (editor) {
                 const filePath = editor.document.uri.fsPath;
                 const notes = notesManager.getNotesForFile(filePath);
-                const notesFilePath = notesManager.getNotesFilePath();
+                const notesFilePath = notesManager.getNotesFilePath(filePath);
                 vscode.window.showInformationMessage(
-                    `Debug: Found ${notes.length} notes for ${filePath}\nNotes file: ${notesFilePath}`
+                    vscode.l10n.t(UI_STRINGS.INFO.DEBUG_NOTES, { count: notes.length, filePath, notesFilePath })
                 );
                 console.log('Debug - Notes for file:', notes);
                 console.log('Debug - Notes file path:', notesFilePath);
@@ -85,12 +177,40 @@ function registerCommands(context: vscode.ExtensionContext, notesManager: NotesM
 
     context.subscriptions.push(
         addNoteCommand,
+        addPathNoteCommand,
         showNotesCommand,
+        showPathNotesCommand,
         showBubbleCommand,
+        toggleResolvedNotesCommand,
+        exportMarkdownCommand,
+        exportGitHubReviewCommand,
+        importGitHubReviewCommand,
+        findOrphanedNotesCommand,
+        listBranchNotesCommand,
+        promoteNoteCommand,
+        cleanUpBranchNotesCommand,
+        nextNoteCommand,
+        previousNoteCommand,
+        goToNoteCommand,
+        startReviewCommand,
+        finishReviewCommand,
         debugCommand
     );
 }
 
+/**
+ * Get the file or folder a command was run on: the one clicked in the
+ * Explorer or the editor title, otherwise the file of the active editor
+ */
+function getCommandPath(uri?: vscode.Uri): string | undefined {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    const filePath = target ? getWorkingFilePath(target) : undefined;
+    if (!filePath) {
+        vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.ERRORS.NO_PATH_SELECTED));
+    }
+    return filePath;
+}
+
 /**
  * Register event handlers for editor changes and configuration updates
  */
@@ -109,22 +229,26 @@ function registerEventHandlers(context: vscode.ExtensionContext, notesManager: N
         }
     });
 
+    // Diff editors show two documents at once, decorate both sides when they appear
+    const onDidChangeVisibleTextEditors = vscode.window.onDidChangeVisibleTextEditors(() => {
+        try {
+            notesManager.updateDecorationsForAllEditors();
+        } catch (error) {
+            console.error('Error updating decorations on visible editors change:', error);
+        }
+    });
+
     // Handle configuration changes
-    const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(event => {
-        if (event.affectsConfiguration('bubulle')) {
-            try {
-                // Configuration changes require extension restart for now
-                vscode.window.showInformationMessage(
-                    'Configuration changed. Please reload the window for changes to take effect.',
-                    'Reload'
-                ).then(selection => {
-                    if (selection === 'Reload') {
-                        vscode.commands.executeCommand('workbench.action.reloadWindow');
-                    }
-                });
-            } catch (error) {
-                console.error('Error handling configuration change:', error);
-            }
+    const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(async event => {
+        if (!event.affectsConfiguration('bubulle')) {
+            return;
+        }
+
+        try {
+            // Settings take effect right away, without reloading the window
+            await notesManager.onConfigurationChanged(event);
+        } catch (error) {
+            console.error('Error handling configuration change:', error);
         }
     });
 
@@ -139,10 +263,11 @@ function registerEventHandlers(context: vscode.ExtensionContext, notesManager: N
 
     // Handle document open events
     const onDidOpenTextDocument = vscode.workspace.onDidOpenTextDocument((document) => {
-        if (notesManager) {
+        const filePath = getWorkingFilePath(document.uri);
+        if (notesManager && filePath) {
             setTimeout(() => {
                 try {
-                    notesManager.updateDecorations(document.uri.fsPath);
+                    notesManager.updateDecorations(filePath);
                 } catch (error) {
                     console.error('Error updating decorations on document open:', error);
                 }
@@ -152,6 +277,7 @@ function registerEventHandlers(context: vscode.ExtensionContext, notesManager: N
 
     context.subscriptions.push(
         onDidChangeActiveTextEditor,
+        onDidChangeVisibleTextEditors,
         onDidChangeConfiguration,
         onDidChangeWorkspaceFolders,
         onDidOpenTextDocument
@@ -9,5 +9,6 @@ export * from './utils/textUtils';
 export * from './services/NotesStorage';
 export * from './services/DecorationManager';
 export * from './webview/WebviewManager';
+export * from './views/NotesTreeProvider';
 export * from './managers/ClickHandler';
 export * from './managers/NotesManager';
@@ -9,9 +9,9 @@ import { DEFAULT_CONFIG } from '../constants';
 export class ClickHandler {
     private clickTimeout: NodeJS.Timeout | null = null;
     private lastClickPosition: { line: number; character: number } | null = null;
+    private readonly disposables: vscode.Disposable[] = [];
 
     constructor(
-        private context: vscode.ExtensionContext,
         private notesStorage: NotesStorage,
         private onNoteClick: (filePath: string, line: number) => void
     ) {
@@ -36,6 +36,11 @@ export class ClickHandler {
                 return;
             }
 
+            // Notes shown in git and diff editors may sit on other lines than in the file
+            if (editor.document.uri.scheme !== 'file') {
+                return;
+            }
+
             const line = args?.line !== undefined ? args.line : editor.selection.active.line;
             const filePath = editor.document.uri.fsPath;
             const notes = this.notesStorage.getNotesForFile(filePath);
@@ -46,7 +51,7 @@ export class ClickHandler {
             }
         });
 
-        this.context.subscriptions.push(clickCommand);
+        this.disposables.push(clickCommand);
     }
 
     /**
@@ -81,7 +86,7 @@ export class ClickHandler {
             });
         });
 
-        this.context.subscriptions.push(selectionHandler);
+        this.disposables.push(selectionHandler);
     }
 
     /**
@@ -119,7 +124,7 @@ export class ClickHandler {
             const lineText = editor.document.lineAt(line).text;
             const isNearEndOfLine = character >= Math.max(0, lineText.length - 10);
 
-            if (isNearEndOfLine) {
+            if (isNearEndOfLine && editor.document.uri.scheme === 'file') {
                 const filePath = editor.document.uri.fsPath;
                 const notes = this.notesStorage.getNotesForFile(filePath);
                 const note = notes.find(n => n.line === line);
@@ -132,4 +137,14 @@ export class ClickHandler {
             console.error('Error in click handler:', error);
         }
     }
+
+    /**
+     * Stop handling clicks, when native comments take over
+     */
+    public dispose(): void {
+        if (this.clickTimeout) {
+            clearTimeout(this.clickTimeout);
+        }
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
 }
@@ -3,32 +3,121 @@
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { Note } from '../types';
-import { UI_STRINGS, DEFAULT_CONFIG } from '../constants';
+import { Note, NoteRange, NoteStatus, NoteSubject, NotesChangeEvent, NotesListActions } from '../types';
+import { UI_STRINGS, EXTENSION_ID, WEBVIEW_TYPES } from '../constants';
 import { NotesStorage } from '../services/NotesStorage';
 import { DecorationManager } from '../services/DecorationManager';
+import { NoteAnchorTracker } from '../services/NoteAnchorTracker';
+import { NativeCommentsController } from '../services/NativeCommentsController';
+import { MarkdownExporter } from '../services/MarkdownExporter';
+import { GitHubReviewExchange } from '../services/GitHubReviewExchange';
+import { NoteFileTracker } from '../services/NoteFileTracker';
+import { SuggestionService } from '../services/SuggestionService';
+import { NoteNavigator } from '../services/NoteNavigator';
+import { ReviewService } from '../services/ReviewService';
+import { NoteRevisionService } from '../services/NoteRevisionService';
+import { BranchService } from '../services/BranchService';
+import { NoteBadgeProvider } from '../services/NoteBadgeProvider';
+import { NoteCodeLensProvider } from '../services/NoteCodeLensProvider';
 import { WebviewManager } from '../webview/WebviewManager';
+import { NotesTreeProvider } from '../views/NotesTreeProvider';
+import { ReviewsTreeProvider } from '../views/ReviewsTreeProvider';
+import { ChangesTreeProvider } from '../views/ChangesTreeProvider';
 import { ClickHandler } from './ClickHandler';
-import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { getExtensionConfig, getRelativeDisplayPath } from '../utils/fileUtils';
 import { truncateText, formatString } from '../utils/textUtils';
+import { canEditNote, getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { hasPendingSuggestion } from '../utils/suggestionUtils';
+import { shortenCommit } from '../utils/gitUtils';
+import { NOTE_SEVERITIES, parseTags } from '../utils/categoryUtils';
+import { getStatusLabel, getSeverityLabel, formatTimestamp } from '../utils/localeUtils';
 
 export class NotesManager {
     private readonly notesStorage: NotesStorage;
     private readonly decorationManager: DecorationManager;
-    private readonly clickHandler: ClickHandler;
+    private clickHandler?: ClickHandler;
+    private nativeComments?: NativeCommentsController;
+    private readonly anchorTracker: NoteAnchorTracker;
+    private readonly fileTracker: NoteFileTracker;
+    private readonly notesTree: NotesTreeProvider;
+    private readonly reviewsTree: ReviewsTreeProvider;
+    private readonly changesTree: ChangesTreeProvider;
+    private readonly reviews: ReviewService;
+    private readonly markdownExporter: MarkdownExporter;
+    private readonly githubReviews: GitHubReviewExchange;
+    private readonly suggestions: SuggestionService;
+    private readonly revisions: NoteRevisionService;
+    private readonly branches: BranchService;
+    private readonly badges: NoteBadgeProvider;
+    private readonly codeLenses: NoteCodeLensProvider;
+    private readonly navigator: NoteNavigator;
+    private notesListPanel?: vscode.WebviewPanel;
 
     constructor(private context: vscode.ExtensionContext) {
-        this.notesStorage = new NotesStorage();
-        this.decorationManager = new DecorationManager(this.notesStorage);
-        this.clickHandler = new ClickHandler(
-            context, 
-            this.notesStorage, 
-            this.handleNoteClick.bind(this)
+        this.notesStorage = new NotesStorage(context);
+        this.branches = new BranchService(context, this.notesStorage);
+        this.decorationManager = new DecorationManager(this.notesStorage, this.branches);
+        this.markdownExporter = new MarkdownExporter(this.notesStorage);
+        this.githubReviews = new GitHubReviewExchange(this.notesStorage);
+        this.suggestions = new SuggestionService(context, this.notesStorage);
+        this.revisions = new NoteRevisionService(context, this.notesStorage);
+        this.navigator = new NoteNavigator(this.notesStorage);
+
+        // Move notes left in the legacy global file into the workspace stores
+        this.initializeStorage();
+
+        // Keep notes attached to their code while files change. Created before
+        // the native comments, which anchor the notes of new threads with it.
+        this.anchorTracker = new NoteAnchorTracker(context, this.notesStorage);
+
+        // Explorer badges counting the open notes of each file and folder
+        this.badges = new NoteBadgeProvider(context, this.notesStorage, this.branches);
+
+        // Native comment threads replace the inline icons and their click detection
+        this.setNativeComments(getExtensionConfig().nativeComments);
+
+        // Summary above annotated code, shown when bubulle.displayMode asks for it
+        this.codeLenses = new NoteCodeLensProvider(context, this.notesStorage, this.branches, {
+            onOpenNote: note => this.openNoteFromCodeLens(note),
+        });
+
+        // Sidebar tree, refreshed whenever notes are saved
+        this.notesTree = new NotesTreeProvider(context, this.notesStorage, {
+            onOpenNote: note => this.openFileAtLine(note.filePath, note.line),
+            onEditNote: note => this.openThread(note),
+            onDeleteNote: note => this.deleteNote(note),
+            onSetStatus: this.setNoteStatus.bind(this),
+        });
+
+        // Notes written during a review stay drafts until it is finished
+        this.reviews = new ReviewService(context, this.notesStorage);
+        this.reviewsTree = new ReviewsTreeProvider(context, this.notesStorage, {
+            onOpenNote: note => this.openFileAtLine(note.filePath, note.line),
+            onExportReview: review => this.markdownExporter.exportReview(review),
+        });
+
+        // Source Control view of the notes on the files being changed
+        this.changesTree = new ChangesTreeProvider(context, this.notesStorage, this.branches, {
+            onOpenNote: note => this.openFileAtLine(note.filePath, note.line),
+        });
+
+        // Keep notes on files that are renamed, moved or deleted
+        this.fileTracker = new NoteFileTracker(context, this.notesStorage);
+
+        // Every view follows the notes storage, whoever changed the notes
+        context.subscriptions.push(
+            this.notesStorage.onDidChangeNotes(event => this.onNotesChanged(event)),
+            this.branches.onDidChangeBranch(() => this.onBranchChanged())
         );
 
-        // Initialize the notes directory
-        this.initializeNotesDirectory();
+        // The notes list comes back after a window reload with its search and filters
+        context.subscriptions.push(
+            vscode.window.registerWebviewPanelSerializer(WEBVIEW_TYPES.NOTES_LIST, {
+                deserializeWebviewPanel: async panel => this.restoreNotesList(panel),
+            })
+        );
         
         // Update decorations with a delay to ensure editor is ready
         this.updateDecorationsOnStartup();
@@ -37,7 +126,7 @@ export class NotesManager {
     /**
      * Add a new note or update existing one
      */
-    public async addNote(filePath: string, line: number): Promise<void> {
+    public async addNote(filePath: string, line: number, range?: NoteRange): Promise<void> {
         console.log(`[BUBULLE] Starting addNote process for file: ${filePath}, line: ${line}`);
         
         if (!this.validateNoteParameters(filePath, line)) {
@@ -45,36 +134,47 @@ export class NotesManager {
             return;
         }
 
+        // Adding a note on a line that already has one continues its thread
+        const existingNote = this.notesStorage.getNoteAt(filePath, line);
+        if (existingNote) {
+            console.log(`[BUBULLE] Note already exists at this line, replying to it`);
+            await this.replyToNote(existingNote);
+            return;
+        }
+
         console.log(`[BUBULLE] Opening webview for note creation`);
-        const noteText = await WebviewManager.showAddNoteEditor(filePath, line);
+        const code = await this.suggestions.getCode(filePath, line, range);
+        const result = await WebviewManager.showAddNoteEditor(this.context.extensionUri, filePath, line, range, code);
+        const noteText = result?.text;
         console.log(`[BUBULLE] Webview returned text: ${noteText ? `"${noteText.substring(0, 50)}..."` : 'null/undefined'}`);
 
         if (noteText && noteText.trim()) {
             try {
-                console.log(`[BUBULLE] Checking if note already exists`);
-                const noteExisted = this.notesStorage.noteExists(filePath, line);
-                console.log(`[BUBULLE] Note existed: ${noteExisted}`);
-                
-                console.log(`[BUBULLE] Attempting to add/update note in storage`);
-                const success = this.notesStorage.addOrUpdateNote(filePath, line, noteText);
-                console.log(`[BUBULLE] Add/update success: ${success}`);
+                const anchor = this.anchorTracker.getAnchor(filePath, line);
+                // A suggestion identical to the code proposes nothing
+                const suggestion = code !== undefined && result?.suggestion !== undefined && result.suggestion !== code
+                    ? { original: code, replacement: result.suggestion }
+                    : undefined;
+                const note = this.notesStorage.createNote(
+                    filePath,
+                    line,
+                    noteText,
+                    anchor,
+                    range,
+                    suggestion,
+                    result?.labels
+                );
+                console.log(`[BUBULLE] Note creation success: ${Boolean(note)}`);
                 
-                if (success) {
-                    const message = noteExisted ? UI_STRINGS.SUCCESS.NOTE_UPDATED : UI_STRINGS.SUCCESS.NOTE_ADDED;
-                    vscode.window.showInformationMessage(message);
-                    console.log(`[BUBULLE] Success message shown: ${message}`);
-
-                    console.log('[BUBULLE] Updating decorations after note addition/update');
-                    this.updateDecorations(filePath);
-                    this.updateDecorationsForAllEditors();
-                    this.updateDecorationsWithDelay(filePath);
+                if (note) {
+                    vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_ADDED));
                 } else {
-                    console.error('[BUBULLE] Failed to add/update note in storage');
-                    vscode.window.showErrorMessage(UI_STRINGS.ERRORS.ADD_NOTE_ERROR);
+                    console.error('[BUBULLE] Failed to add note in storage');
+                    vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.ADD_NOTE_ERROR));
                 }
             } catch (error) {
                 console.error('[BUBULLE] Exception during note addition:', error);
-                vscode.window.showErrorMessage(UI_STRINGS.ERRORS.ADD_NOTE_ERROR);
+                vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.ADD_NOTE_ERROR));
             }
         } else {
             console.log('[BUBULLE] No note text provided or empty text, skipping note creation');
@@ -82,21 +182,300 @@ export class NotesManager {
     }
 
     /**
-     * Show all notes in a webview
+     * Add a note about the code selected in an editor
      */
-    public showAllNotes(): void {
-        const notes = this.notesStorage.getAllNotesSorted();
+    public async addNoteForSelection(editor: vscode.TextEditor): Promise<void> {
+        const { start, end } = editor.selection;
 
-        if (notes.length === 0) {
-            vscode.window.showInformationMessage(UI_STRINGS.INFO.NO_NOTES_FOUND);
+        // A selection of whole lines ends at the start of the next line
+        const endLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+        const endCharacter = endLine === end.line ? end.character : editor.document.lineAt(endLine).text.length;
+
+        const range: NoteRange = {
+            startLine: start.line,
+            startCharacter: start.character,
+            endLine,
+            endCharacter,
+        };
+
+        await this.addNote(editor.document.uri.fsPath, endLine, range);
+    }
+
+    /**
+     * Add a note about a whole file or folder
+     */
+    public async addPathNote(filePath: string): Promise<void> {
+        let subject: NoteSubject;
+        try {
+            subject = fs.statSync(filePath).isDirectory() ? 'folder' : 'file';
+        } catch (error) {
+            console.error('[BUBULLE] Error reading the annotated path:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.INVALID_PARAMS));
+            return;
+        }
+
+        const result = await WebviewManager.showAddNoteEditor(this.context.extensionUri, filePath, 0, undefined, undefined, subject);
+        if (!result?.text.trim()) {
             return;
         }
 
-        WebviewManager.showAllNotesWebview(
-            notes,
-            this.openFileAtLine.bind(this),
-            this.deleteNoteAndRefresh.bind(this)
+        const note = this.notesStorage.createNote(filePath, 0, result.text, undefined, undefined, undefined, result.labels, subject);
+        if (note) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_ADDED));
+        } else {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.ADD_NOTE_ERROR));
+        }
+    }
+
+    /**
+     * Show all notes in a webview, with search, filters and sort. A file
+     * filter, when given, replaces the one of the list.
+     */
+    public showAllNotes(fileGlob?: string): void {
+        const allNotes = this.getVisibleNotes();
+
+        if (allNotes.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_FOUND));
+            return;
+        }
+
+        if (this.notesListPanel) {
+            this.refreshNotesList();
+            if (fileGlob !== undefined) {
+                WebviewManager.filterNotesListWebview(this.notesListPanel, fileGlob);
+            }
+            this.notesListPanel.reveal();
+            return;
+        }
+
+        this.trackNotesList(
+            WebviewManager.showAllNotesWebview(this.context.extensionUri, allNotes, this.getNotesListActions(), fileGlob)
+        );
+    }
+
+    /**
+     * Show the notes list filtered to a file, or to a folder and everything inside it
+     */
+    public showNotesForPath(filePath: string): void {
+        const displayPath = getRelativeDisplayPath(filePath).split(path.sep).join('/');
+        const isFolder = fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
+        if (!isFolder) {
+            this.showAllNotes(displayPath);
+            return;
+        }
+        // The workspace root holds every note
+        this.showAllNotes(displayPath ? `${displayPath}/**` : '');
+    }
+
+    /**
+     * Restore the notes list left open when the window was reloaded
+     */
+    private restoreNotesList(panel: vscode.WebviewPanel): void {
+        WebviewManager.restoreNotesListWebview(
+            this.context.extensionUri,
+            panel,
+            this.getVisibleNotes(),
+            this.getNotesListActions()
+        );
+        this.trackNotesList(panel);
+    }
+
+    /**
+     * Keep the notes list panel to update it when notes change
+     */
+    private trackNotesList(panel: vscode.WebviewPanel): void {
+        this.notesListPanel = panel;
+        panel.onDidDispose(() => {
+            this.notesListPanel = undefined;
+        });
+    }
+
+    /**
+     * Get the actions of the notes list
+     */
+    private getNotesListActions(): NotesListActions {
+        return {
+            onOpenNote: this.openNoteById.bind(this),
+            onDeleteNote: this.deleteNoteById.bind(this),
+            onSetStatus: this.setNoteStatus.bind(this),
+        };
+    }
+
+    /**
+     * Show or hide resolved notes in the editor
+     */
+    public async toggleResolvedNotes(): Promise<void> {
+        const showResolvedNotes = !getExtensionConfig().showResolvedNotes;
+        await vscode.workspace
+            .getConfiguration(EXTENSION_ID)
+            .update('showResolvedNotes', showResolvedNotes, vscode.ConfigurationTarget.Global);
+
+        vscode.window.showInformationMessage(
+            showResolvedNotes ? vscode.l10n.t(UI_STRINGS.INFO.RESOLVED_NOTES_SHOWN) : vscode.l10n.t(UI_STRINGS.INFO.RESOLVED_NOTES_HIDDEN)
         );
+        this.updateDecorationsForAllEditors();
+    }
+
+    /**
+     * Apply a change of the bubulle settings right away. The author is read
+     * whenever a comment is written, so it needs nothing here.
+     */
+    public async onConfigurationChanged(event: vscode.ConfigurationChangeEvent): Promise<void> {
+        if (event.affectsConfiguration(`${EXTENSION_ID}.storageLocation`) ||
+            event.affectsConfiguration(`${EXTENSION_ID}.notesFile`)) {
+            await this.notesStorage.reloadStorageLocation();
+        }
+
+        if (event.affectsConfiguration(`${EXTENSION_ID}.nativeComments`)) {
+            this.setNativeComments(getExtensionConfig().nativeComments);
+        }
+
+        if (event.affectsConfiguration(`${EXTENSION_ID}.displayMode`)) {
+            this.updateClickHandler();
+            this.updateDecorationsForAllEditors();
+            this.codeLenses.refresh();
+        }
+
+        if (event.affectsConfiguration(`${EXTENSION_ID}.categories`)) {
+            this.decorationManager.reloadCategories();
+        }
+
+        if (event.affectsConfiguration(`${EXTENSION_ID}.showResolvedNotes`)) {
+            this.updateDecorationsForAllEditors();
+            this.codeLenses.refresh();
+        }
+    }
+
+    /**
+     * Show notes as native comment threads, or as inline icons that open the
+     * note menu when clicked
+     */
+    private setNativeComments(enabled: boolean): void {
+        if (enabled !== Boolean(this.nativeComments)) {
+            this.nativeComments?.dispose();
+            this.nativeComments = undefined;
+
+            if (enabled) {
+                this.decorationManager.clearDecorations();
+                this.nativeComments = new NativeCommentsController(this.notesStorage, this.branches, this.anchorTracker, {
+                    onDeleteComment: async (noteId, commentId) => this.deleteComment(noteId, commentId),
+                    onDeleteNote: note => this.deleteNote(note),
+                });
+            } else {
+                this.decorationManager.updateDecorationsForAllEditors();
+            }
+        }
+        this.updateClickHandler();
+    }
+
+    /**
+     * Detect clicks on the inline icons only while they are shown
+     */
+    private updateClickHandler(): void {
+        const showIcons = !this.nativeComments && getExtensionConfig().displayMode !== 'codeLens';
+        if (showIcons === Boolean(this.clickHandler)) {
+            return;
+        }
+
+        this.clickHandler?.dispose();
+        this.clickHandler = showIcons
+            ? new ClickHandler(this.notesStorage, this.handleNoteClick.bind(this))
+            : undefined;
+    }
+
+    /**
+     * Open a note from its CodeLens: expand its comment thread in native
+     * comments mode, otherwise show the note menu
+     */
+    private async openNoteFromCodeLens(note: Note): Promise<void> {
+        if (this.nativeComments?.expandThread(note.id)) {
+            return;
+        }
+        await this.showNoteDialog(note);
+    }
+
+    /**
+     * Start a review: notes written from now on are drafts
+     */
+    public async startReview(): Promise<void> {
+        await this.reviews.startReview();
+    }
+
+    /**
+     * Finish the review in progress with a verdict and a summary, publishing its drafts
+     */
+    public async finishReview(): Promise<void> {
+        await this.reviews.finishReview();
+    }
+
+    /**
+     * Export notes as a Markdown review report
+     */
+    public async exportMarkdown(uri?: vscode.Uri): Promise<void> {
+        await this.markdownExporter.exportMarkdown(uri);
+    }
+
+    /**
+     * Export open notes as a GitHub pull-request review JSON file
+     */
+    public async exportGitHubReview(): Promise<void> {
+        await this.githubReviews.exportReview();
+    }
+
+    /**
+     * Import notes from a GitHub review comments JSON file
+     */
+    public async importGitHubReview(): Promise<void> {
+        await this.githubReviews.importReview();
+    }
+
+    /**
+     * List notes whose file no longer exists to reattach, archive or delete them
+     */
+    public async findOrphanedNotes(): Promise<void> {
+        await this.fileTracker.findOrphanedNotes();
+    }
+
+    /**
+     * List the notes of branches that are not checked out
+     */
+    public async listBranchNotes(): Promise<void> {
+        await this.branches.listOtherBranchNotes();
+    }
+
+    /**
+     * Make the branch note at the cursor global
+     */
+    public promoteNote(): void {
+        this.branches.promoteNote();
+    }
+
+    /**
+     * Archive or delete the notes of branches deleted locally
+     */
+    public async cleanUpBranchNotes(): Promise<void> {
+        await this.branches.cleanUpDeletedBranches();
+    }
+
+    /**
+     * Move to the next note, in the current file and then in the following files
+     */
+    public async goToNextNote(): Promise<void> {
+        await this.navigator.goToAdjacentNote('next');
+    }
+
+    /**
+     * Move to the previous note, in the current file and then in the preceding files
+     */
+    public async goToPreviousNote(): Promise<void> {
+        await this.navigator.goToAdjacentNote('previous');
+    }
+
+    /**
+     * Search all notes and open the chosen one
+     */
+    public async goToNote(): Promise<void> {
+        await this.navigator.goToNote();
     }
 
     /**
@@ -121,6 +500,10 @@ export class NotesManager {
      * Update decorations in the active editor
      */
     public updateDecorations(targetFilePath?: string): void {
+        if (this.nativeComments) {
+            this.nativeComments.refresh();
+            return;
+        }
         this.decorationManager.updateDecorations(targetFilePath);
     }
 
@@ -128,6 +511,10 @@ export class NotesManager {
      * Update decorations for all visible editors
      */
     public updateDecorationsForAllEditors(): void {
+        if (this.nativeComments) {
+            this.nativeComments.refresh();
+            return;
+        }
         this.decorationManager.updateDecorationsForAllEditors();
     }
 
@@ -142,8 +529,7 @@ export class NotesManager {
      * Handle note icon click
      */
     private async handleNoteClick(filePath: string, line: number): Promise<void> {
-        const notes = this.notesStorage.getNotesForFile(filePath);
-        const note = notes.find(n => n.line === line);
+        const note = this.notesStorage.getNoteAt(filePath, line);
 
         if (note) {
             await this.showNoteDialog(note);
@@ -151,68 +537,286 @@ export class NotesManager {
     }
 
     /**
-     * Show note dialog with edit/delete options
+     * Show note dialog with discussion, reply and delete options
      */
     private async showNoteDialog(note: Note): Promise<void> {
         const fileName = getRelativeDisplayPath(note.filePath);
-        const truncatedText = truncateText(note.text);
-        const date = new Date(note.timestamp);
-        const formattedDate = isNaN(date.getTime()) ? 'Date inconnue' : date.toLocaleDateString();
+        const formattedDate = formatTimestamp(note.timestamp);
+        const replies = note.comments.length - 1;
+
+        const statusActions = note.status === 'open'
+            ? [
+                {
+                    label: `$(check) ${vscode.l10n.t('Resolve')}`,
+                    description: vscode.l10n.t('Mark this note as resolved'),
+                    action: 'resolve' as const,
+                },
+                {
+                    label: `$(circle-slash) ${vscode.l10n.t("Won't fix")}`,
+                    description: vscode.l10n.t('Close this note without fixing it'),
+                    action: 'wontFix' as const,
+                },
+            ]
+            : [
+                {
+                    label: `$(issue-reopened) ${vscode.l10n.t('Reopen')}`,
+                    description: vscode.l10n.t('Reopen this note ({status})', { status: getStatusLabel(note.status) }),
+                    action: 'reopen' as const,
+                },
+            ];
+
+        const suggestionActions = hasPendingSuggestion(note)
+            ? [
+                {
+                    label: `$(check-all) ${vscode.l10n.t('Apply suggestion')}`,
+                    description: vscode.l10n.t('Replace the code with the suggestion and resolve the note'),
+                    action: 'applySuggestion' as const,
+                },
+                {
+                    label: `$(diff) ${vscode.l10n.t('View diff')}`,
+                    description: vscode.l10n.t('Compare the current code with the suggested code'),
+                    action: 'previewSuggestion' as const,
+                },
+            ]
+            : [];
+
+        const revisionActions = note.revision
+            ? [
+                {
+                    label: `$(git-commit) ${vscode.l10n.t('View note in original revision')}`,
+                    description: vscode.l10n.t(UI_STRINGS.INFO.REVISION_LABEL, { commit: shortenCommit(note.revision.commit) }),
+                    action: 'revision' as const,
+                },
+            ]
+            : [];
+
+        const branchActions = note.branch
+            ? [
+                {
+                    label: `$(globe) ${vscode.l10n.t('Promote to global')}`,
+                    description: vscode.l10n.t(UI_STRINGS.INFO.BRANCH_LABEL, { branch: note.branch }),
+                    action: 'promote' as const,
+                },
+            ]
+            : [];
 
         const actions = [
+            ...suggestionActions,
+            ...revisionActions,
             {
-                label: '$(edit) Modifier',
-                description: 'Éditer le contenu de cette note',
+                label: `$(comment-discussion) ${vscode.l10n.t('Discussion')}`,
+                description: replies > 0
+                    ? vscode.l10n.t('View the {count} comments, edit or delete them', { count: note.comments.length })
+                    : vscode.l10n.t('View, edit or delete the comment'),
+                action: 'thread' as const,
             },
             {
-                label: '$(trash) Supprimer',
-                description: 'Supprimer définitivement cette note',
+                label: `$(reply) ${vscode.l10n.t('Reply')}`,
+                description: vscode.l10n.t('Add a reply to this note'),
+                action: 'reply' as const,
             },
             {
-                label: '$(close) Annuler',
-                description: 'Fermer sans action',
+                label: `$(tag) ${vscode.l10n.t('Severity and tags')}`,
+                description: [getSeverityLabel(note.severity), ...(note.tags ?? []).map(tag => `#${tag}`)].join(' '),
+                action: 'labels' as const,
+            },
+            ...statusActions,
+            ...branchActions,
+            {
+                label: `$(trash) ${vscode.l10n.t('Delete')}`,
+                description: vscode.l10n.t('Delete this note and its replies for good'),
+                action: 'delete' as const,
+            },
+            {
+                label: `$(close) ${vscode.l10n.t('Cancel')}`,
+                description: vscode.l10n.t('Close without doing anything'),
+                action: 'cancel' as const,
             },
         ];
 
-        const choice = await vscode.window.showQuickPick(actions, {
-            placeHolder: `💬 ${fileName} (Ligne ${note.line + 1}) • ${formattedDate}`,
+        // Drafts of another reviewer can only be read
+        const readOnlyActions = ['previewSuggestion', 'revision', 'thread', 'cancel'];
+        const allowedActions = canEditNote(note)
+            ? actions
+            : actions.filter(action => readOnlyActions.includes(action.action));
+
+        const choice = await vscode.window.showQuickPick(allowedActions, {
+            placeHolder: `💬 ${fileName} (${getNoteLocationLabel(note)}) • ${note.comments[0].author} • ${formattedDate}`,
             matchOnDescription: true,
             ignoreFocusOut: true,
         });
 
-        switch (choice?.label) {
-            case '$(edit) Modifier':
-                await this.editNote(note);
+        switch (choice?.action) {
+            case 'applySuggestion':
+                await this.suggestions.applySuggestion(note.id);
+                break;
+            case 'previewSuggestion':
+                await this.suggestions.previewSuggestion(note.id);
+                break;
+            case 'revision':
+                await this.revisions.showOriginalRevision(note.id);
                 break;
-            case '$(trash) Supprimer':
+            case 'thread':
+                this.openThread(note);
+                break;
+            case 'reply':
+                await this.replyToNote(note);
+                break;
+            case 'labels':
+                await this.editNoteLabels(note);
+                break;
+            case 'resolve':
+                this.setNoteStatus(note.id, 'resolved');
+                break;
+            case 'wontFix':
+                this.setNoteStatus(note.id, 'wontFix');
+                break;
+            case 'reopen':
+                this.setNoteStatus(note.id, 'open');
+                break;
+            case 'promote':
+                this.branches.promoteNote(note.id);
+                break;
+            case 'delete':
                 await this.deleteNote(note);
                 break;
         }
     }
 
     /**
-     * Edit an existing note
+     * Open the thread of a note with reply, edit and delete actions
+     */
+    private openThread(note: Note): void {
+        WebviewManager.showThreadDialog(this.context.extensionUri, note, {
+            onReply: async (noteId, text) =>
+                this.checkThreadUpdate(this.notesStorage.addComment(noteId, text)),
+            onEditComment: async (noteId, commentId, text) =>
+                this.checkThreadUpdate(this.notesStorage.updateComment(noteId, commentId, text)),
+            onDeleteComment: async (noteId, commentId) => this.deleteComment(noteId, commentId),
+            onApplySuggestion: async noteId => this.suggestions.applySuggestion(noteId),
+            onPreviewSuggestion: noteId => this.suggestions.previewSuggestion(noteId),
+            onEditSuggestion: async (noteId, replacement) => {
+                const updated = this.checkThreadUpdate(this.notesStorage.updateSuggestion(noteId, replacement));
+                if (updated) {
+                    vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.SUGGESTION_UPDATED));
+                }
+                return updated;
+            },
+        });
+    }
+
+    /**
+     * Reply to a note
      */
-    private async editNote(note: Note): Promise<void> {
-        console.log(`Editing note for file: ${note.filePath}, line: ${note.line}`);
-        const newText = await WebviewManager.showEditNoteDialog(note);
+    private async replyToNote(note: Note): Promise<void> {
+        if (!this.checkEditable(note)) {
+            return;
+        }
 
-        if (newText && newText.trim()) {
-            console.log(`New text received: ${newText.substring(0, 50)}...`);
-            const success = this.notesStorage.addOrUpdateNote(note.filePath, note.line, newText);
-            console.log(`Edit success: ${success}`);
+        const text = await WebviewManager.showReplyEditor(this.context.extensionUri, note);
+
+        if (text && text.trim()) {
+            const updated = this.notesStorage.addComment(note.id, text);
             
-            if (success) {
-                vscode.window.showInformationMessage(UI_STRINGS.SUCCESS.NOTE_UPDATED);
-                console.log('Updating decorations after note edit');
-                this.updateDecorations(note.filePath);
-                this.updateDecorationsForAllEditors();
-                this.updateDecorationsWithDelay(note.filePath);
+            if (updated) {
+                vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.REPLY_ADDED));
             } else {
-                vscode.window.showErrorMessage(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR);
+                vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
             }
+        }
+    }
+
+    /**
+     * Ask for the severity and the tags of a note
+     */
+    private async editNoteLabels(note: Note): Promise<void> {
+        if (!this.checkEditable(note)) {
+            return;
+        }
+
+        const severity = await vscode.window.showQuickPick(
+            NOTE_SEVERITIES.map(value => ({
+                label: getSeverityLabel(value),
+                description: value === note.severity ? vscode.l10n.t('(current)') : undefined,
+                value,
+            })),
+            { placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_SEVERITY) }
+        );
+        if (!severity) {
+            return;
+        }
+
+        const tagsText = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t(UI_STRINGS.PROMPTS.TAGS_INPUT),
+            value: (note.tags ?? []).join(', '),
+        });
+        if (tagsText === undefined) {
+            return;
+        }
+
+        const updated = this.notesStorage.setNoteLabels(note.id, { severity: severity.value, tags: parseTags(tagsText) });
+        if (updated) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.LABELS_UPDATED));
+        } else {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+        }
+    }
+
+    /**
+     * Delete a comment of a thread with confirmation.
+     * Resolves to the updated note, or undefined when the note is gone.
+     */
+    private async deleteComment(noteId: string, commentId: string): Promise<Note | undefined> {
+        const note = this.notesStorage.getNoteById(noteId);
+        const comment = note?.comments.find(c => c.id === commentId);
+        if (!note || !comment) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return note;
+        }
+        if (!this.checkEditable(note)) {
+            return note;
+        }
+
+        const confirmMessage = vscode.l10n.t(UI_STRINGS.PROMPTS.DELETE_COMMENT_CONFIRM, {
+            author: comment.author,
+            text: truncateText(comment.body)
+        });
+
+        const remove = vscode.l10n.t('Delete');
+        const confirm = await vscode.window.showWarningMessage(
+            confirmMessage,
+            { modal: true },
+            remove
+        );
+
+        if (confirm !== remove) {
+            return note;
+        }
+
+        const updated = this.notesStorage.deleteComment(noteId, commentId);
+        vscode.window.showInformationMessage(
+            updated ? vscode.l10n.t(UI_STRINGS.SUCCESS.COMMENT_DELETED) : vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_DELETED)
+        );
+        return updated;
+    }
+
+    /**
+     * Change the review status of a note
+     */
+    private setNoteStatus(noteId: string, status: NoteStatus): void {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (note && !this.checkEditable(note)) {
+            return;
+        }
+
+        const updated = this.notesStorage.setNoteStatus(noteId, status);
+
+        if (updated) {
+            vscode.window.showInformationMessage(
+                vscode.l10n.t(UI_STRINGS.SUCCESS.STATUS_CHANGED, { status: getStatusLabel(status) })
+            );
         } else {
-            console.log('No new text provided for edit');
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
         }
     }
 
@@ -220,41 +824,112 @@ export class NotesManager {
      * Delete a note with confirmation
      */
     private async deleteNote(note: Note): Promise<void> {
-        const fileName = path.basename(note.filePath) || 'Fichier inconnu';
-        const truncatedText = truncateText(note.text);
+        if (!this.checkEditable(note)) {
+            return;
+        }
 
-        const confirmMessage = formatString(UI_STRINGS.PROMPTS.DELETE_CONFIRM, {
+        const fileName = path.basename(note.filePath) || vscode.l10n.t('Unknown file');
+        const truncatedText = truncateText(getNoteText(note));
+
+        const confirmMessage = vscode.l10n.t(UI_STRINGS.PROMPTS.DELETE_CONFIRM, {
             fileName,
-            line: note.line + 1,
+            line: getNoteLocationLabel(note),
             text: truncatedText
         });
 
+        const remove = vscode.l10n.t('Delete');
         const confirm = await vscode.window.showWarningMessage(
             confirmMessage,
             { modal: true },
-            'Supprimer',
-            'Annuler'
+            remove
         );
 
-        if (confirm === 'Supprimer') {
-            const success = this.notesStorage.deleteNote(note.filePath, note.line);
+        if (confirm === remove) {
+            const success = this.notesStorage.deleteNote(note.id);
             
             if (success) {
-                vscode.window.showInformationMessage(UI_STRINGS.SUCCESS.NOTE_DELETED);
-                this.updateDecorations(note.filePath);
-                this.updateDecorationsForAllEditors();
-                this.updateDecorationsWithDelay(note.filePath);
+                vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_DELETED));
             } else {
-                vscode.window.showWarningMessage(UI_STRINGS.INFO.NOTE_NOT_FOUND);
+                vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
             }
         }
     }
 
+    /**
+     * Check that the current user may change a note, warning when it is
+     * another reviewer's draft
+     */
+    private checkEditable(note: Note): boolean {
+        if (canEditNote(note)) {
+            return true;
+        }
+        vscode.window.showWarningMessage(
+            vscode.l10n.t(UI_STRINGS.ERRORS.DRAFT_READ_ONLY, { author: note.comments[0].author })
+        );
+        return false;
+    }
+
+    /**
+     * Report a thread update that failed
+     */
+    private checkThreadUpdate(updated: Note | undefined): Note | undefined {
+        if (!updated) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+        }
+        return updated;
+    }
+
+    /**
+     * Send fresh notes to the notes list if it is open
+     */
+    private refreshNotesList(): void {
+        if (!this.notesListPanel) {
+            return;
+        }
+        WebviewManager.updateNotesListWebview(this.notesListPanel, this.getVisibleNotes());
+    }
+
+    /**
+     * Get the global notes and the notes of the checked out branches, sorted by file and line
+     */
+    private getVisibleNotes(): Note[] {
+        return this.notesStorage.getAllNotesSorted().filter(note => this.branches.isNoteVisible(note));
+    }
+
+    /**
+     * Show the notes of the branch that was just checked out, and hide the others
+     */
+    private onBranchChanged(): void {
+        this.refreshNotesList();
+        if (this.nativeComments) {
+            this.nativeComments.refresh();
+            return;
+        }
+        this.decorationManager.updateDecorationsForAllEditors();
+    }
+
+    /**
+     * Refresh the notes list and the editors showing the files whose notes changed
+     */
+    private onNotesChanged(event: NotesChangeEvent): void {
+        this.refreshNotesList();
+        if (this.nativeComments) {
+            this.nativeComments.refresh();
+            return;
+        }
+        this.decorationManager.updateDecorationsForFiles(event.filePaths);
+    }
+
     /**
      * Open file at specific line
      */
     private async openFileAtLine(filePath: string, line: number): Promise<void> {
         try {
+            // Notes about a folder open it in the Explorer
+            if (fs.statSync(filePath).isDirectory()) {
+                await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(filePath));
+                return;
+            }
             const document = await vscode.workspace.openTextDocument(filePath);
             const editor = await vscode.window.showTextDocument(document);
             const position = new vscode.Position(line, 0);
@@ -262,25 +937,33 @@ export class NotesManager {
             editor.revealRange(new vscode.Range(position, position));
         } catch (error) {
             const fileName = path.basename(filePath);
-            vscode.window.showErrorMessage(`${UI_STRINGS.ERRORS.OPEN_FILE_ERROR}: ${fileName}`);
+            vscode.window.showErrorMessage(`${vscode.l10n.t(UI_STRINGS.ERRORS.OPEN_FILE_ERROR)}: ${fileName}`);
             console.error('Error opening file:', error);
         }
     }
 
     /**
-     * Delete note and refresh webview
+     * Open the file of a note from the notes list, at its current line
      */
-    private async deleteNoteAndRefresh(filePath: string, line: number): Promise<void> {
-        const success = this.notesStorage.deleteNote(filePath, line);
-        
-        if (success) {
-            vscode.window.showInformationMessage(UI_STRINGS.SUCCESS.NOTE_DELETED);
-            this.updateDecorations(filePath);
-            this.updateDecorationsForAllEditors();
-            this.updateDecorationsWithDelay(filePath);
-        } else {
-            vscode.window.showErrorMessage(UI_STRINGS.ERRORS.DELETE_NOTE_ERROR);
+    private async openNoteById(noteId: string): Promise<void> {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (!note) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return;
+        }
+        await this.openFileAtLine(note.filePath, note.line);
+    }
+
+    /**
+     * Delete a note from the notes list, once confirmed
+     */
+    private async deleteNoteById(noteId: string): Promise<void> {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (!note) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return;
         }
+        await this.deleteNote(note);
     }
 
     /**
@@ -288,39 +971,21 @@ export class NotesManager {
      */
     private validateNoteParameters(filePath: string, line: number): boolean {
         if (!filePath || typeof line !== 'number' || line < 0) {
-            vscode.window.showErrorMessage(UI_STRINGS.ERRORS.INVALID_PARAMS);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.INVALID_PARAMS));
             return false;
         }
         return true;
     }
 
     /**
-     * Update decorations with a delay to ensure visibility
+     * Initialize the notes storage
      */
-    private updateDecorationsWithDelay(targetFilePath?: string): void {
-        console.log(`Updating decorations with delay for: ${targetFilePath || 'all files'}`);
-        this.updateDecorations(targetFilePath);
-        
-        setTimeout(() => {
-            console.log(`Delayed decoration update for: ${targetFilePath || 'all files'}`);
-            this.updateDecorations(targetFilePath);
-            this.updateDecorationsForAllEditors();
-        }, DEFAULT_CONFIG.DECORATION_UPDATE_DELAY);
-    }
-
-    /**
-     * Initialize the notes directory
-     */
-    private initializeNotesDirectory(): void {
+    private initializeStorage(): void {
         try {
-            // This will trigger the creation of the bubulle-notes directory
-            const notesFilePath = this.notesStorage.getNotesFilePath();
-            console.log(`[BUBULLE] Notes directory initialized at: ${notesFilePath}`);
-            
-            // Initialize the notes file with empty data if it doesn't exist
-            this.notesStorage.initializeNotesFile();
+            console.log(`[BUBULLE] Notes storage initialized at: ${this.notesStorage.getNotesFilePath()}`);
+            this.notesStorage.migrateLegacyNotes();
         } catch (error) {
-            console.error('[BUBULLE] Error initializing notes directory:', error);
+            console.error('[BUBULLE] Error initializing notes storage:', error);
         }
     }
 
@@ -349,10 +1014,10 @@ export class NotesManager {
     }
 
     /**
-     * Get the notes file path (for debugging)
+     * Get the notes file path for a file (for debugging)
      */
-    public getNotesFilePath(): string {
-        return this.notesStorage.getNotesFilePath();
+    public getNotesFilePath(filePath?: string): string {
+        return this.notesStorage.getNotesFilePath(filePath);
     }
 
     /**
@@ -360,5 +1025,7 @@ export class NotesManager {
      */
     public dispose(): void {
         this.decorationManager.dispose();
+        this.nativeComments?.dispose();
+        this.clickHandler?.dispose();
     }
 }
@@ -0,0 +1,296 @@
+/**
+ * Branch service scoping notes to the git branch they were written on
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Note } from '../types';
+import { UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { truncateText } from '../utils/textUtils';
+import { canEditNote, getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { findGitDirectory, getLocalBranches, readCurrentBranch } from '../utils/gitUtils';
+
+export class BranchService {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    /** Git directory of each folder holding an annotated file, undefined outside a repository */
+    private readonly gitDirectories = new Map<string, string | undefined>();
+    /** Branch checked out in each git directory, undefined when HEAD is detached */
+    private readonly branches = new Map<string, string | undefined>();
+    private readonly watchedGitDirectories = new Set<string>();
+
+    /**
+     * Fired when the branch checked out in one of the repositories changed
+     */
+    public readonly onDidChangeBranch = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage
+    ) {
+        context.subscriptions.push(this.changeEmitter);
+    }
+
+    /**
+     * Get the branch checked out in the repository of a file
+     */
+    public getCurrentBranch(filePath: string): string | undefined {
+        const gitDirectory = this.getGitDirectory(filePath);
+        if (!gitDirectory) {
+            return undefined;
+        }
+        if (!this.branches.has(gitDirectory)) {
+            this.branches.set(gitDirectory, readCurrentBranch(gitDirectory));
+        }
+        return this.branches.get(gitDirectory);
+    }
+
+    /**
+     * Check whether a note is shown: global notes always are, branch notes
+     * only while their branch is checked out
+     */
+    public isNoteVisible(note: Note): boolean {
+        return !note.branch || note.branch === this.getCurrentBranch(note.filePath);
+    }
+
+    /**
+     * List the notes of branches that are not checked out, and let the user
+     * open, promote or delete them one by one
+     */
+    public async listOtherBranchNotes(): Promise<void> {
+        let notes = this.getOtherBranchNotes();
+        if (notes.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_OTHER_BRANCH_NOTES));
+            return;
+        }
+
+        while (notes.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                notes.map(note => ({
+                    label: `$(git-branch) ${note.branch}`,
+                    description: `${getRelativeDisplayPath(note.filePath)} • ${getNoteLocationLabel(note)}`,
+                    detail: truncateText(getNoteText(note)),
+                    note,
+                })),
+                {
+                    placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_BRANCH_NOTE, { count: notes.length }),
+                    matchOnDescription: true,
+                    matchOnDetail: true,
+                }
+            );
+            if (!picked) {
+                return;
+            }
+
+            await this.handleBranchNote(picked.note);
+            notes = this.getOtherBranchNotes();
+        }
+    }
+
+    /**
+     * Make a branch note global, so it is shown on every branch. Without a
+     * note id it acts on the note at the cursor.
+     */
+    public promoteNote(noteId?: string): void {
+        const id = noteId ?? this.getBranchNoteIdAtCursor();
+        const note = id ? this.notesStorage.getNoteById(id) : undefined;
+        if (!note) {
+            return;
+        }
+        if (!canEditNote(note)) {
+            vscode.window.showWarningMessage(
+                vscode.l10n.t(UI_STRINGS.ERRORS.DRAFT_READ_ONLY, { author: note.comments[0].author })
+            );
+            return;
+        }
+
+        if (!this.notesStorage.setNoteBranch(note.id, undefined)) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+            return;
+        }
+        vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_PROMOTED));
+    }
+
+    /**
+     * Ask what to do with the notes of branches that no longer exist locally:
+     * archive or delete them. Repositories whose branches can't be listed are skipped.
+     */
+    public async cleanUpDeletedBranches(): Promise<void> {
+        const notes = await this.getDeletedBranchNotes();
+        if (notes.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_DELETED_BRANCH_NOTES));
+            return;
+        }
+
+        const branches = [...new Set(notes.map(note => note.branch!))].join(', ');
+        const archive = vscode.l10n.t('Archive');
+        const remove = vscode.l10n.t('Delete');
+        const choice = await vscode.window.showWarningMessage(
+            vscode.l10n.t(UI_STRINGS.PROMPTS.DELETED_BRANCH_NOTES, { count: notes.length, branches }),
+            { modal: true },
+            archive,
+            remove
+        );
+
+        if (choice === archive) {
+            const archived = this.notesStorage.archiveNotes(notes.map(note => note.id));
+            if (archived === 0) {
+                vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+                return;
+            }
+            vscode.window.showInformationMessage(
+                vscode.l10n.t(UI_STRINGS.SUCCESS.NOTES_ARCHIVED, {
+                    count: archived,
+                    path: getRelativeDisplayPath(this.notesStorage.getArchiveFilePath(notes[0].filePath)),
+                })
+            );
+        } else if (choice === remove) {
+            const deleted = this.notesStorage.deleteNotes(notes.map(note => note.id));
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTES_DELETED, { count: deleted }));
+        }
+    }
+
+    /**
+     * Open, promote or delete a single note of another branch
+     */
+    private async handleBranchNote(note: Note): Promise<void> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                {
+                    label: `$(go-to-file) ${vscode.l10n.t('Open File')}`,
+                    description: vscode.l10n.t('Open the file at the line of the note'),
+                    action: 'open' as const,
+                },
+                {
+                    label: `$(globe) ${vscode.l10n.t('Promote to global')}`,
+                    description: vscode.l10n.t('Show this note on every branch'),
+                    action: 'promote' as const,
+                },
+                {
+                    label: `$(trash) ${vscode.l10n.t('Delete')}`,
+                    description: vscode.l10n.t('Delete this note for good'),
+                    action: 'delete' as const,
+                },
+            ],
+            { placeHolder: `${getRelativeDisplayPath(note.filePath)} (${getNoteLocationLabel(note)}) • ${note.branch}` }
+        );
+
+        switch (choice?.action) {
+            case 'open':
+                await this.openNote(note);
+                break;
+            case 'promote':
+                this.promoteNote(note.id);
+                break;
+            case 'delete':
+                if (this.notesStorage.deleteNote(note.id)) {
+                    vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_DELETED));
+                }
+                break;
+        }
+    }
+
+    /**
+     * Open the file of a note at its line, or reveal the folder of a folder note
+     */
+    private async openNote(note: Note): Promise<void> {
+        try {
+            if (note.subject === 'folder') {
+                await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(note.filePath));
+                return;
+            }
+            const document = await vscode.workspace.openTextDocument(note.filePath);
+            const line = Math.min(note.line, document.lineCount - 1);
+            await vscode.window.showTextDocument(document, { selection: new vscode.Range(line, 0, line, 0) });
+        } catch (error) {
+            console.error('[BUBULLE] Error opening branch note:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.OPEN_FILE_ERROR));
+        }
+    }
+
+    /**
+     * Get the notes of branches that are not checked out
+     */
+    private getOtherBranchNotes(): Note[] {
+        return this.notesStorage.getAllNotesSorted().filter(note => !this.isNoteVisible(note));
+    }
+
+    /**
+     * Get the notes whose branch is missing from the local branches of their repository
+     */
+    private async getDeletedBranchNotes(): Promise<Note[]> {
+        const branchesByRepository = new Map<string, string[] | undefined>();
+        const deletedBranchNotes: Note[] = [];
+        for (const note of this.notesStorage.getAllNotesSorted()) {
+            const gitDirectory = note.branch ? this.getGitDirectory(note.filePath) : undefined;
+            if (!gitDirectory) {
+                continue;
+            }
+            if (!branchesByRepository.has(gitDirectory)) {
+                branchesByRepository.set(gitDirectory, await getLocalBranches(note.filePath));
+            }
+            const branches = branchesByRepository.get(gitDirectory);
+            if (branches !== undefined && !branches.includes(note.branch!)) {
+                deletedBranchNotes.push(note);
+            }
+        }
+        return deletedBranchNotes;
+    }
+
+    /**
+     * Get the branch note on the cursor line of the active editor
+     */
+    private getBranchNoteIdAtCursor(): string | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const note = editor
+            ? this.notesStorage.getNoteAt(editor.document.uri.fsPath, editor.selection.active.line)
+            : undefined;
+        if (!note?.branch) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_BRANCH_NOTE_AT_CURSOR));
+            return undefined;
+        }
+        return note.id;
+    }
+
+    /**
+     * Get the git directory of the repository of a file, watching its HEAD
+     * the first time to follow branch checkouts
+     */
+    private getGitDirectory(filePath: string): string | undefined {
+        const folder = path.dirname(path.resolve(filePath));
+        if (!this.gitDirectories.has(folder)) {
+            const gitDirectory = findGitDirectory(folder);
+            this.gitDirectories.set(folder, gitDirectory);
+            if (gitDirectory && !this.watchedGitDirectories.has(gitDirectory)) {
+                this.watchedGitDirectories.add(gitDirectory);
+                this.watchHead(gitDirectory);
+            }
+        }
+        return this.gitDirectories.get(folder);
+    }
+
+    /**
+     * Forget the branch of a repository when its HEAD changes
+     */
+    private watchHead(gitDirectory: string): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(gitDirectory), 'HEAD')
+        );
+        const onHeadChanged = () => {
+            const branch = readCurrentBranch(gitDirectory);
+            if (this.branches.get(gitDirectory) === branch) {
+                return;
+            }
+            console.log(`[BUBULLE] Branch changed in ${gitDirectory}: ${branch ?? 'detached HEAD'}`);
+            this.branches.set(gitDirectory, branch);
+            this.changeEmitter.fire();
+        };
+
+        this.context.subscriptions.push(
+            watcher,
+            watcher.onDidChange(onHeadChanged),
+            watcher.onDidCreate(onHeadChanged)
+        );
+    }
+}
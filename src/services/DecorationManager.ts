@@ -3,30 +3,132 @@
  */
 
 import * as vscode from 'vscode';
-import { Note } from '../types';
+import * as path from 'path';
+import { DecorationConfig, Note, OverviewRulerLaneName } from '../types';
 import { NotesStorage } from './NotesStorage';
-import { formatTextForDisplay } from '../utils/textUtils';
+import { BranchService } from './BranchService';
+import { COMMANDS, UI_STRINGS } from '../constants';
+import { getExtensionConfig } from '../utils/fileUtils';
+import { formatSuggestionDiff, hasPendingSuggestion } from '../utils/suggestionUtils';
+import { getCategoryDecorations, getNoteCategory } from '../utils/categoryUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+import { getStatusLabel, getSeverityLabel, formatTimestamp } from '../utils/localeUtils';
+import { getWorkingFilePath, hashGitBlob, shortenCommit } from '../utils/gitUtils';
+import { findAnchorLine } from '../utils/anchorUtils';
+
+const OVERVIEW_RULER_LANES: Record<OverviewRulerLaneName, vscode.OverviewRulerLane> = {
+    left: vscode.OverviewRulerLane.Left,
+    center: vscode.OverviewRulerLane.Center,
+    right: vscode.OverviewRulerLane.Right,
+    full: vscode.OverviewRulerLane.Full,
+};
 
 export class DecorationManager {
-    private readonly decorationType: vscode.TextEditorDecorationType;
+    private categories: Record<string, DecorationConfig> = {};
+    private readonly categoryDecorationTypes = new Map<string, vscode.TextEditorDecorationType>();
+    private readonly outdatedDecorationType: vscode.TextEditorDecorationType;
+    private readonly closedDecorationType: vscode.TextEditorDecorationType;
+    private readonly draftDecorationType: vscode.TextEditorDecorationType;
+    private readonly rangeDecorationType: vscode.TextEditorDecorationType;
     private readonly notesStorage: NotesStorage;
+    private readonly branches: BranchService;
 
-    constructor(notesStorage: NotesStorage) {
+    constructor(notesStorage: NotesStorage, branches: BranchService) {
         this.notesStorage = notesStorage;
-        this.decorationType = this.createDecorationType();
+        this.branches = branches;
+        this.createCategoryDecorationTypes();
+        this.outdatedDecorationType = this.createOutdatedDecorationType();
+        this.closedDecorationType = this.createClosedDecorationType();
+        this.draftDecorationType = this.createDraftDecorationType();
+        this.rangeDecorationType = this.createRangeDecorationType();
     }
 
     /**
-     * Create the decoration type for notes
+     * Create a decoration type for each severity and each tag configured in settings
      */
-    private createDecorationType(): vscode.TextEditorDecorationType {
+    private createCategoryDecorationTypes(): void {
+        this.categories = getCategoryDecorations(getExtensionConfig().categories);
+        Object.entries(this.categories).forEach(([category, config]) => {
+            this.categoryDecorationTypes.set(category, this.createDecorationType(config));
+        });
+    }
+
+    /**
+     * Create the decoration type for the open notes of a category
+     */
+    private createDecorationType(config: DecorationConfig): vscode.TextEditorDecorationType {
         return vscode.window.createTextEditorDecorationType({
-            overviewRulerColor: '#0366d6',
+            overviewRulerColor: config.overviewRulerColor,
+            overviewRulerLane: OVERVIEW_RULER_LANES[config.overviewRulerLane],
+            after: {
+                contentText: ` ${config.iconText}`,
+                color: config.iconColor,
+                backgroundColor: config.backgroundColor,
+                textDecoration: 'none',
+                fontWeight: 'normal',
+                margin: config.margin,
+                fontStyle: 'normal',
+            },
+        });
+    }
+
+    /**
+     * Rebuild the category decorations after the bubulle.categories setting changed
+     */
+    public reloadCategories(): void {
+        this.categoryDecorationTypes.forEach(decorationType => decorationType.dispose());
+        this.categoryDecorationTypes.clear();
+        this.createCategoryDecorationTypes();
+        this.updateDecorationsForAllEditors();
+    }
+
+    /**
+     * Create the decoration type for notes whose code could not be found
+     */
+    private createOutdatedDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            overviewRulerColor: '#959da5',
             overviewRulerLane: vscode.OverviewRulerLane.Right,
             after: {
-                contentText: ' 💬',
-                color: '#0366d6',
-                backgroundColor: 'rgba(3, 102, 214, 0.1)',
+                contentText: ' 💬⚠',
+                color: '#959da5',
+                backgroundColor: 'rgba(149, 157, 165, 0.1)',
+                textDecoration: 'none',
+                fontWeight: 'normal',
+                margin: '0 0 0 12px',
+                fontStyle: 'italic',
+            },
+        });
+    }
+
+    /**
+     * Create the dimmed decoration type for resolved and won't-fix notes
+     */
+    private createClosedDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            after: {
+                contentText: ' ✔',
+                color: 'rgba(40, 167, 69, 0.5)',
+                textDecoration: 'none',
+                fontWeight: 'normal',
+                margin: '0 0 0 12px',
+                fontStyle: 'normal',
+            },
+        });
+    }
+
+    /**
+     * Create the decoration type for draft notes of a review in progress
+     */
+    private createDraftDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            overviewRulerColor: '#dbab09',
+            overviewRulerLane: vscode.OverviewRulerLane.Right,
+            after: {
+                contentText: ' 📝',
+                color: '#dbab09',
+                backgroundColor: 'rgba(219, 171, 9, 0.1)',
+                border: '1px dashed rgba(219, 171, 9, 0.6)',
                 textDecoration: 'none',
                 fontWeight: 'normal',
                 margin: '0 0 0 12px',
@@ -35,6 +137,16 @@ export class DecorationManager {
         });
     }
 
+    /**
+     * Create the decoration type highlighting the code a note is about
+     */
+    private createRangeDecorationType(): vscode.TextEditorDecorationType {
+        return vscode.window.createTextEditorDecorationType({
+            backgroundColor: 'rgba(3, 102, 214, 0.08)',
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+        });
+    }
+
     /**
      * Update decorations for the active editor or a specific file
      */
@@ -51,11 +163,11 @@ export class DecorationManager {
      */
     private updateDecorationsForActiveEditor(): void {
         const editor = vscode.window.activeTextEditor;
-        if (!editor) {
+        const filePath = editor ? getWorkingFilePath(editor.document.uri) : undefined;
+        if (!editor || !filePath) {
             return;
         }
 
-        const filePath = editor.document.uri.fsPath;
         this.updateDecorationsForEditor(editor, filePath);
     }
 
@@ -64,7 +176,7 @@ export class DecorationManager {
      */
     private updateDecorationsForFile(filePath: string): void {
         const editor = vscode.window.activeTextEditor;
-        if (!editor || editor.document.uri.fsPath !== filePath) {
+        if (!editor || getWorkingFilePath(editor.document.uri) !== filePath) {
             return;
         }
 
@@ -72,12 +184,44 @@ export class DecorationManager {
     }
 
     /**
-     * Update decorations for all visible editors
+     * Update decorations for all visible editors, including both sides of diff editors
      */
     public updateDecorationsForAllEditors(): void {
         vscode.window.visibleTextEditors.forEach(editor => {
-            const filePath = editor.document.uri.fsPath;
-            this.updateDecorationsForEditor(editor, filePath);
+            const filePath = getWorkingFilePath(editor.document.uri);
+            if (filePath) {
+                this.updateDecorationsForEditor(editor, filePath);
+            }
+        });
+    }
+
+    /**
+     * Remove the note decorations from every visible editor, when native
+     * comment threads replace them
+     */
+    public clearDecorations(): void {
+        const decorationTypes = [
+            ...this.categoryDecorationTypes.values(),
+            this.outdatedDecorationType,
+            this.closedDecorationType,
+            this.draftDecorationType,
+            this.rangeDecorationType,
+        ];
+        vscode.window.visibleTextEditors.forEach(editor => {
+            decorationTypes.forEach(decorationType => editor.setDecorations(decorationType, []));
+        });
+    }
+
+    /**
+     * Update decorations for the visible editors showing one of the given files
+     */
+    public updateDecorationsForFiles(filePaths: string[]): void {
+        const targets = new Set(filePaths.map(filePath => path.resolve(filePath)));
+        vscode.window.visibleTextEditors.forEach(editor => {
+            const filePath = getWorkingFilePath(editor.document.uri);
+            if (filePath && targets.has(path.resolve(filePath))) {
+                this.updateDecorationsForEditor(editor, filePath);
+            }
         });
     }
 
@@ -86,41 +230,84 @@ export class DecorationManager {
      */
     private updateDecorationsForEditor(editor: vscode.TextEditor, filePath: string): void {
         try {
-            const notes = this.notesStorage.getNotesForFile(filePath);
+            // Notes of other branches stay hidden until their branch is checked out
+            const fileNotes = this.notesStorage.getNotesForFile(filePath).filter(note => this.branches.isNoteVisible(note));
+            const notes = editor.document.uri.scheme === 'file' ? fileNotes : this.locateNotes(fileNotes, editor);
 
             console.log(`Updating decorations for ${filePath}, found ${notes.length} notes`);
 
-            const validNotes = this.filterValidNotes(notes, editor);
-            const decorations = this.createDecorations(validNotes, editor);
+            const { showResolvedNotes: showClosedNotes, displayMode } = getExtensionConfig();
+            const displayedNotes = this.placeNotes(notes, editor);
+            const openNotes = displayedNotes.filter(note => note.status === 'open');
+            const currentNotes = openNotes.filter(note => !note.outdated);
+            const publishedNotes = currentNotes.filter(note => !note.draft);
+            const draftNotes = currentNotes.filter(note => note.draft);
+            const outdatedNotes = openNotes.filter(note => note.outdated);
+            const closedNotes = showClosedNotes ? displayedNotes.filter(note => note.status !== 'open') : [];
+            // Compared with the blob recorded by each note to tell whether the file changed since
+            const fileBlob = notes.some(note => note.revision) ? hashGitBlob(editor.document.getText()) : undefined;
 
-            console.log(`Setting ${decorations.length} decorations for ${validNotes.length} valid notes`);
-            editor.setDecorations(this.decorationType, decorations);
+            console.log(
+                `Setting decorations for ${publishedNotes.length} notes, ${draftNotes.length} drafts, ${outdatedNotes.length} outdated and ${closedNotes.length} closed notes`
+            );
+            // In CodeLens mode the lenses replace the icons after the lines, ranges stay highlighted
+            const createIcons = (iconNotes: Note[]) =>
+                displayMode === 'codeLens' ? [] : this.createDecorations(iconNotes, editor, fileBlob);
+            this.categoryDecorationTypes.forEach((decorationType, category) => {
+                const categoryNotes = publishedNotes.filter(note => getNoteCategory(note, this.categories) === category);
+                editor.setDecorations(decorationType, createIcons(categoryNotes));
+            });
+            editor.setDecorations(this.outdatedDecorationType, createIcons(outdatedNotes));
+            editor.setDecorations(this.closedDecorationType, createIcons(closedNotes));
+            editor.setDecorations(this.draftDecorationType, createIcons(draftNotes));
+            editor.setDecorations(this.rangeDecorationType, this.createRangeDecorations(currentNotes, editor, fileBlob));
         } catch (error) {
             console.error('Error updating decorations:', error);
         }
     }
 
     /**
-     * Filter notes to only include those with valid line numbers
+     * Find the notes of a file in another version of it, shown by a git or
+     * diff editor, from their anchors. Notes whose code isn't in that version are left out.
      */
-    private filterValidNotes(notes: Note[], editor: vscode.TextEditor): Note[] {
-        return notes.filter(note => {
-            const isValid = note.line >= 0 && note.line < editor.document.lineCount;
-            if (!isValid) {
-                console.warn(
-                    `Invalid note on line ${note.line}, document has ${editor.document.lineCount} lines`
-                );
+    private locateNotes(notes: Note[], editor: vscode.TextEditor): Note[] {
+        const lines = editor.document.getText().split(/\r?\n/);
+        return notes.flatMap(note => {
+            const line = note.anchor ? findAnchorLine(lines, note.anchor, note.line) : undefined;
+            if (line === undefined) {
+                return [];
             }
-            return isValid;
+
+            const offset = line - note.line;
+            const range = note.range
+                ? { ...note.range, startLine: note.range.startLine + offset, endLine: note.range.endLine + offset }
+                : undefined;
+            return [{ ...note, line, range, outdated: false }];
+        });
+    }
+
+    /**
+     * Keep notes past the end of the document visible on the last line, as outdated
+     */
+    private placeNotes(notes: Note[], editor: vscode.TextEditor): Note[] {
+        const lastLine = editor.document.lineCount - 1;
+        return notes.map(note => {
+            if (note.line <= lastLine) {
+                return note;
+            }
+            console.warn(
+                `Note on line ${note.line} is past the end of the document (${editor.document.lineCount} lines)`
+            );
+            return { ...note, line: lastLine, outdated: true };
         });
     }
 
     /**
      * Create decoration options for valid notes
      */
-    private createDecorations(notes: Note[], editor: vscode.TextEditor): vscode.DecorationOptions[] {
+    private createDecorations(notes: Note[], editor: vscode.TextEditor, fileBlob?: string): vscode.DecorationOptions[] {
         return notes.map(note => {
-            const hoverMessage = this.createHoverMessage(note);
+            const hoverMessage = this.createHoverMessage(note, fileBlob);
             const lineLength = editor.document.lineAt(note.line).text.length;
 
             return {
@@ -131,31 +318,133 @@ export class DecorationManager {
     }
 
     /**
-     * Create hover message for a note
+     * Create background highlights for notes anchored to a range
      */
-    private createHoverMessage(note: Note): vscode.MarkdownString {
-        const date = new Date(note.timestamp);
-        const formattedDate = isNaN(date.getTime())
-            ? 'Date inconnue'
-            : date.toLocaleString();
-
-        const formattedText = formatTextForDisplay(note.text, 60);
+    private createRangeDecorations(notes: Note[], editor: vscode.TextEditor, fileBlob?: string): vscode.DecorationOptions[] {
+        return notes
+            .filter(note => note.range)
+            .map(note => {
+                const { startLine, startCharacter, endLine, endCharacter } = note.range!;
+                return {
+                    range: editor.document.validateRange(
+                        new vscode.Range(startLine, startCharacter, endLine, endCharacter)
+                    ),
+                    hoverMessage: this.createHoverMessage(note, fileBlob),
+                };
+            });
+    }
 
+    /**
+     * Create hover message showing the whole thread of a note. The blob hash
+     * of the displayed file tells whether it changed since the note's commit.
+     * Note content stays in an untrusted section; only the section holding
+     * Bubulle's own action links may run commands.
+     */
+    private createHoverMessage(note: Note, fileBlob?: string): vscode.MarkdownString[] {
         const hoverMessage = new vscode.MarkdownString();
-        hoverMessage.supportHtml = true;
+        const actions = new vscode.MarkdownString();
         hoverMessage.appendMarkdown('🫧\n\n');
-        hoverMessage.appendMarkdown(
-            `<span style="color: #0366d6;">${formattedText.replace(/\n/g, '<br>')}</span>`
-        );
-        hoverMessage.appendMarkdown(`\n\nAjoutée le ${formattedDate}`);
+        if (note.draft) {
+            hoverMessage.appendMarkdown(`**${vscode.l10n.t(UI_STRINGS.INFO.DRAFT_LABEL)}**\n\n`);
+        }
+        if (note.status !== 'open') {
+            hoverMessage.appendMarkdown(`**${getStatusLabel(note.status)}**\n\n`);
+        }
+        if (note.branch) {
+            hoverMessage.appendText(vscode.l10n.t(UI_STRINGS.INFO.BRANCH_LABEL, { branch: note.branch }));
+            hoverMessage.appendMarkdown('\n\n');
+        }
+        if (note.outdated) {
+            hoverMessage.appendMarkdown(`${vscode.l10n.t(UI_STRINGS.INFO.NOTE_OUTDATED)}\n\n`);
+        }
+        if (note.severity !== 'info' || note.tags) {
+            const tags = (note.tags ?? []).map(tag => `\`#${tag}\``);
+            hoverMessage.appendMarkdown(`${[`*${getSeverityLabel(note.severity)}*`, ...tags].join(' ')}\n\n`);
+        }
+
+        note.comments.forEach((comment, index) => {
+            if (index > 0) {
+                hoverMessage.appendMarkdown('\n\n---\n\n');
+            }
+
+            const edited = comment.editedAt ? ` ${vscode.l10n.t(UI_STRINGS.INFO.EDITED_LABEL)}` : '';
+
+            hoverMessage.appendText(comment.author);
+            hoverMessage.appendMarkdown(` • ${formatTimestamp(comment.createdAt)}${edited}\n\n`);
+            hoverMessage.appendMarkdown(stripCommandLinks(comment.body));
+        });
+
+        if (note.suggestion) {
+            this.appendSuggestion(hoverMessage, actions, note);
+        }
+        if (note.revision) {
+            this.appendRevision(hoverMessage, actions, note, fileBlob);
+        }
+
+        return actions.value ? [hoverMessage, actions] : [hoverMessage];
+    }
+
+    /**
+     * Show the suggestion of a note as a diff, with apply and preview links
+     */
+    private appendSuggestion(hoverMessage: vscode.MarkdownString, actions: vscode.MarkdownString, note: Note): void {
+        const diff = formatSuggestionDiff(note.suggestion!.original, note.suggestion!.replacement);
+        const title = hasPendingSuggestion(note)
+            ? vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_LABEL)
+            : vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_APPLIED_LABEL);
 
-        return hoverMessage;
+        hoverMessage.appendMarkdown(`\n\n---\n\n**${title}**\n\n`);
+        hoverMessage.appendCodeblock(diff.join('\n'), 'diff');
+
+        const args = encodeURIComponent(JSON.stringify([note.id]));
+        const links = [`[${vscode.l10n.t('View diff')}](command:${COMMANDS.PREVIEW_SUGGESTION}?${args})`];
+        if (hasPendingSuggestion(note)) {
+            links.unshift(`[${vscode.l10n.t('Apply suggestion')}](command:${COMMANDS.APPLY_SUGGESTION}?${args})`);
+        }
+        this.appendActions(actions, links, [COMMANDS.APPLY_SUGGESTION, COMMANDS.PREVIEW_SUGGESTION]);
+    }
+
+    /**
+     * Show the commit a note was written on, whether the file changed since,
+     * and a link to the note in that revision
+     */
+    private appendRevision(
+        hoverMessage: vscode.MarkdownString,
+        actions: vscode.MarkdownString,
+        note: Note,
+        fileBlob?: string
+    ): void {
+        const revision = vscode.l10n.t(UI_STRINGS.INFO.REVISION_LABEL, { commit: `\`${shortenCommit(note.revision!.commit)}\`` });
+        const changed = fileBlob !== undefined && fileBlob !== note.revision!.blob
+            ? ` • ${vscode.l10n.t(UI_STRINGS.INFO.REVISION_CHANGED)}`
+            : '';
+        const args = encodeURIComponent(JSON.stringify([note.id]));
+        const link = `[${vscode.l10n.t('View note in original revision')}](command:${COMMANDS.VIEW_ORIGINAL_REVISION}?${args})`;
+
+        hoverMessage.appendMarkdown(`\n\n---\n\n${revision}${changed}`);
+        this.appendActions(actions, [link], [COMMANDS.VIEW_ORIGINAL_REVISION]);
+    }
+
+    /**
+     * Add command links to the actions section of a hover and allow them to
+     * run. Command links only run in trusted hovers, limited to the suggestion
+     * and revision commands, and no note content is ever added to that section.
+     */
+    private appendActions(actions: vscode.MarkdownString, links: string[], commands: string[]): void {
+        const trusted = actions.isTrusted;
+        const enabledCommands = typeof trusted === 'object' ? trusted.enabledCommands : [];
+        actions.isTrusted = { enabledCommands: [...enabledCommands, ...commands] };
+        actions.appendMarkdown(`${actions.value ? ' • ' : ''}${links.join(' • ')}`);
     }
 
     /**
-     * Dispose of the decoration type
+     * Dispose of the decoration types
      */
     public dispose(): void {
-        this.decorationType.dispose();
+        this.categoryDecorationTypes.forEach(decorationType => decorationType.dispose());
+        this.outdatedDecorationType.dispose();
+        this.closedDecorationType.dispose();
+        this.draftDecorationType.dispose();
+        this.rangeDecorationType.dispose();
     }
 }
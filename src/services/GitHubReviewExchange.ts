@@ -0,0 +1,163 @@
+/**
+ * Exchange of notes with GitHub pull-request reviews through JSON files
+ */
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { GitHubReview, ImportedReviewThread, Note, NoteRange } from '../types';
+import { DEFAULT_CONFIG, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { atomicWriteFile, fromStoredPath, getRelativeDisplayPath, toStoredPath } from '../utils/fileUtils';
+import { formatString } from '../utils/textUtils';
+import { generateId, isLineNote } from '../utils/noteUtils';
+import { getNewReviewComments, parseReviewComments, toReviewComment } from '../utils/githubReviewUtils';
+
+export class GitHubReviewExchange {
+    constructor(private notesStorage: NotesStorage) {}
+
+    /**
+     * Write the open notes of the workspace as the body of a GitHub "create a review" request
+     */
+    public async exportReview(): Promise<void> {
+        try {
+            // Review comments are written on lines
+            const notes = this.notesStorage.getAllNotesSorted().filter(note => isLineNote(note) && note.status === 'open');
+            const comments = notes.flatMap(note => {
+                const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(note.filePath));
+                return folder ? [toReviewComment(note, toStoredPath(note.filePath, folder.uri.fsPath))] : [];
+            });
+
+            if (comments.length === 0) {
+                vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_TO_EXPORT));
+                return;
+            }
+
+            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, 'bubulle-review.json') : undefined,
+                filters: { JSON: ['json'] },
+            });
+            if (!target) {
+                return;
+            }
+
+            const review: GitHubReview = { body: '', event: 'COMMENT', comments };
+            atomicWriteFile(target.fsPath, JSON.stringify(review, null, 2));
+            vscode.window.showInformationMessage(
+                vscode.l10n.t(UI_STRINGS.SUCCESS.REVIEW_EXPORTED, {
+                    count: comments.length,
+                    path: getRelativeDisplayPath(target.fsPath),
+                })
+            );
+        } catch (error) {
+            console.error('[BUBULLE] Error exporting GitHub review:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.EXPORT_ERROR));
+        }
+    }
+
+    /**
+     * Turn a saved GitHub review comments file into notes
+     */
+    public async importReview(): Promise<void> {
+        const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { JSON: ['json'] },
+            openLabel: vscode.l10n.t('Import'),
+        });
+        if (!files?.[0]) {
+            return;
+        }
+
+        try {
+            const threads = parseReviewComments(JSON.parse(fs.readFileSync(files[0].fsPath, 'utf8')));
+            if (threads.length === 0) {
+                vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.ERRORS.INVALID_REVIEW_FILE));
+                return;
+            }
+
+            const importedAt = new Date().toISOString();
+            const notes = threads.flatMap(thread => {
+                const note = this.toNote(thread, importedAt);
+                return note ? [note] : [];
+            });
+            const imported = notes.length > 0 ? this.notesStorage.addNotes(notes) : 0;
+
+            vscode.window.showInformationMessage(
+                vscode.l10n.t(UI_STRINGS.SUCCESS.REVIEW_IMPORTED, { count: imported })
+            );
+            if (threads.length > imported) {
+                vscode.window.showWarningMessage(
+                    vscode.l10n.t(UI_STRINGS.INFO.REVIEW_COMMENTS_SKIPPED, { count: threads.length - imported })
+                );
+            }
+        } catch (error) {
+            console.error('[BUBULLE] Error importing GitHub review:', error);
+            vscode.window.showErrorMessage(
+                error instanceof SyntaxError ? vscode.l10n.t(UI_STRINGS.ERRORS.INVALID_REVIEW_FILE) : vscode.l10n.t(UI_STRINGS.ERRORS.IMPORT_ERROR)
+            );
+        }
+    }
+
+    /**
+     * Build the note of a review thread, holding the comments the note on its
+     * line doesn't have yet. Threads on the old side of the diff, on missing
+     * files or already imported are skipped.
+     */
+    private toNote(thread: ImportedReviewThread, importedAt: string): Note | undefined {
+        if (thread.side === 'LEFT') {
+            return undefined;
+        }
+
+        const filePath = this.resolveReviewPath(thread.path);
+        if (!filePath) {
+            return undefined;
+        }
+
+        // A thread imported before only brings its new replies, merged by addNotes
+        const existing = this.notesStorage.getNoteAt(filePath, thread.line);
+        const comments = existing ? getNewReviewComments(existing.comments, thread.comments) : thread.comments;
+        if (comments.length === 0) {
+            return undefined;
+        }
+
+        const note: Note = {
+            id: generateId(),
+            filePath,
+            line: thread.line,
+            comments: comments.map(comment => ({ id: generateId(), ...comment, createdAt: comment.createdAt ?? importedAt })),
+            status: 'open',
+            severity: DEFAULT_CONFIG.SEVERITY,
+            timestamp: thread.comments[0].createdAt ?? importedAt,
+        };
+        if (thread.startLine !== undefined) {
+            note.range = this.getThreadRange(filePath, thread.startLine, thread.line);
+        }
+        if (thread.outdated) {
+            note.outdated = true;
+        }
+        return note;
+    }
+
+    /**
+     * Get the range of a multi-line thread, ending at the end of its last line.
+     * A file that can't be read gives a range ending at the start of that line.
+     */
+    private getThreadRange(filePath: string, startLine: number, line: number): NoteRange {
+        let endCharacter = 0;
+        try {
+            endCharacter = fs.readFileSync(filePath, 'utf8').split(/\r?\n/)[line]?.length ?? 0;
+        } catch (error) {
+            console.warn(`[BUBULLE] Unable to read ${filePath} for the range of a review comment:`, error);
+        }
+        return { startLine, startCharacter: 0, endLine: line, endCharacter };
+    }
+
+    /**
+     * Find the workspace file a repository path refers to, trying each workspace folder
+     */
+    private resolveReviewPath(reviewPath: string): string | undefined {
+        return (vscode.workspace.workspaceFolders || [])
+            .map(folder => fromStoredPath(reviewPath, folder.uri.fsPath))
+            .find(candidate => fs.statSync(candidate, { throwIfNoEntry: false })?.isFile());
+    }
+}
@@ -0,0 +1,344 @@
+/**
+ * Markdown export of notes as a review report
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExportDestination, ExportScope, Note, NoteFilter, NoteReview } from '../types';
+import { UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { atomicWriteFile, getRelativeDisplayPath, isSameOrInside } from '../utils/fileUtils';
+import { formatString } from '../utils/textUtils';
+import { getNoteLocationLabel, groupNotesByFile, isLineNote } from '../utils/noteUtils';
+import { NOTE_SEVERITIES, getAllTags, matchesNoteFilter } from '../utils/categoryUtils';
+import { getStatusLabel, getSeverityLabel, getVerdictLabel, formatTimestamp } from '../utils/localeUtils';
+
+export class MarkdownExporter {
+    constructor(private notesStorage: NotesStorage) {}
+
+    /**
+     * Ask for a scope, a filter and a destination, then export the matching notes.
+     * A file or folder given by the explorer context menu skips the scope prompt.
+     */
+    public async exportMarkdown(uri?: vscode.Uri): Promise<void> {
+        try {
+            const scopedNotes = await this.getNotesToExport(uri);
+            if (!scopedNotes) {
+                return;
+            }
+
+            const filter = await this.pickFilter(scopedNotes);
+            if (!filter) {
+                return;
+            }
+
+            const notes = scopedNotes.filter(note => matchesNoteFilter(note, filter));
+            if (notes.length === 0) {
+                vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_TO_EXPORT));
+                return;
+            }
+
+            const destination = await this.pickDestination();
+            if (!destination) {
+                return;
+            }
+
+            await this.writeReport(this.buildReport(notes), destination);
+        } catch (error) {
+            console.error('[BUBULLE] Error exporting notes:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.EXPORT_ERROR));
+        }
+    }
+
+    /**
+     * Export a finished review, with its verdict and summary, to a destination
+     * chosen by the user
+     */
+    public async exportReview(review: NoteReview): Promise<void> {
+        try {
+            const destination = await this.pickDestination();
+            if (!destination) {
+                return;
+            }
+
+            const notes = this.notesStorage.getReviewNotes(review.id);
+            await this.writeReport(this.buildReport(notes, review), destination);
+        } catch (error) {
+            console.error('[BUBULLE] Error exporting review:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.EXPORT_ERROR));
+        }
+    }
+
+    /**
+     * Build a Markdown report of notes grouped by file, opened by the verdict
+     * and summary of a review when the notes come from one
+     */
+    public buildReport(notes: Note[], review?: NoteReview): string {
+        const groupedNotes = groupNotesByFile(notes);
+        const summary = vscode.l10n.t(UI_STRINGS.REPORT.SUMMARY, {
+            date: formatTimestamp(new Date().toISOString()),
+            count: notes.length,
+            files: Object.keys(groupedNotes).length,
+        });
+
+        const sections = Object.entries(groupedNotes).map(([filePath, fileNotes]) => {
+            const linkPath = this.getLinkPath(filePath);
+            const lines = fileNotes.some(isLineNote) ? this.readLines(filePath) : undefined;
+            const notesMarkdown = fileNotes.map(note => this.getNoteMarkdown(note, linkPath, lines));
+            return [`## \`${getRelativeDisplayPath(filePath)}\``, ...notesMarkdown].join('\n\n');
+        });
+
+        const reviewMarkdown = review
+            ? `**${getVerdictLabel(review.verdict)}** • ${review.author} • ${formatTimestamp(review.submittedAt)}`
+            : '';
+
+        return [`# ${vscode.l10n.t(UI_STRINGS.REPORT.TITLE)}`, `_${summary}_`, reviewMarkdown, review?.summary ?? '', ...sections]
+            .filter(Boolean)
+            .join('\n\n') + '\n';
+    }
+
+    /**
+     * Get the Markdown of a single note: line link, code excerpt and thread
+     */
+    private getNoteMarkdown(note: Note, linkPath: string, lines: string[] | undefined): string {
+        const startLine = (note.range?.startLine ?? note.line) + 1;
+        const endLine = note.line + 1;
+        const anchor = !isLineNote(note) ? '' : startLine === endLine ? `#L${endLine}` : `#L${startLine}-L${endLine}`;
+        const labels = [
+            getStatusLabel(note.status),
+            ...(note.severity !== 'info' ? [getSeverityLabel(note.severity)] : []),
+            ...(note.tags ?? []).map(tag => `\`#${tag}\``),
+        ];
+        const heading = `### [${getNoteLocationLabel(note)}](${linkPath}${anchor}) — ${labels.join(' • ')}`;
+
+        const thread = note.comments.map(comment => {
+            const edited = comment.editedAt ? ` ${vscode.l10n.t(UI_STRINGS.INFO.EDITED_LABEL)}` : '';
+            return `**${comment.author}** • ${formatTimestamp(comment.createdAt)}${edited}\n\n${comment.body}`;
+        });
+
+        return [heading, isLineNote(note) ? this.getExcerptMarkdown(note, lines) : '', ...thread]
+            .filter(Boolean)
+            .join('\n\n');
+    }
+
+    /**
+     * Get a fenced excerpt of the lines a note is about. Outdated notes show
+     * the code they were written on instead.
+     */
+    private getExcerptMarkdown(note: Note, lines: string[] | undefined): string {
+        let code: string;
+        let intro = '';
+
+        if (note.outdated || !lines || note.line >= lines.length) {
+            if (!note.anchor?.text) {
+                return '';
+            }
+            code = note.anchor.text;
+            intro = `${vscode.l10n.t(UI_STRINGS.REPORT.ORIGINAL_CODE)}\n\n`;
+        } else {
+            code = lines.slice(note.range?.startLine ?? note.line, note.line + 1).join('\n');
+        }
+
+        // The fence must be longer than any backtick run in the code
+        const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        const language = path.extname(note.filePath).substring(1);
+
+        return `${intro}${fence}${language}\n${code}\n${fence}`;
+    }
+
+    /**
+     * Get the notes in the scope chosen by the user, or undefined if cancelled
+     */
+    private async getNotesToExport(uri?: vscode.Uri): Promise<Note[] | undefined> {
+        const allNotes = this.notesStorage.getAllNotesSorted();
+
+        if (uri?.scheme === 'file') {
+            const isDirectory = fs.existsSync(uri.fsPath) && fs.statSync(uri.fsPath).isDirectory();
+            return this.filterNotes(allNotes, isDirectory ? 'folder' : 'file', uri.fsPath);
+        }
+
+        const scope = await this.pickScope();
+        if (!scope) {
+            return undefined;
+        }
+
+        const activeFile = vscode.window.activeTextEditor?.document.uri;
+        switch (scope) {
+            case 'file':
+                if (!activeFile || activeFile.scheme !== 'file') {
+                    vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.ERRORS.NO_ACTIVE_EDITOR));
+                    return undefined;
+                }
+                return this.filterNotes(allNotes, 'file', activeFile.fsPath);
+            case 'folder': {
+                const folders = await vscode.window.showOpenDialog({
+                    canSelectFiles: false,
+                    canSelectFolders: true,
+                    canSelectMany: false,
+                    defaultUri: activeFile?.scheme === 'file'
+                        ? vscode.Uri.file(path.dirname(activeFile.fsPath))
+                        : vscode.workspace.workspaceFolders?.[0]?.uri,
+                    openLabel: vscode.l10n.t('Export this folder'),
+                });
+                return folders?.[0] ? this.filterNotes(allNotes, 'folder', folders[0].fsPath) : undefined;
+            }
+            case 'workspace':
+                return allNotes;
+        }
+    }
+
+    /**
+     * Keep the notes of a file or of every file under a folder
+     */
+    private filterNotes(notes: Note[], scope: ExportScope, targetPath: string): Note[] {
+        const target = path.resolve(targetPath);
+        if (scope === 'file') {
+            return notes.filter(note => path.resolve(note.filePath) === target);
+        }
+        if (scope === 'folder') {
+            // Notes about the folder itself belong to its export too
+            return notes.filter(note => isSameOrInside(note.filePath, target));
+        }
+        return notes;
+    }
+
+    /**
+     * Ask which notes to export
+     */
+    private async pickScope(): Promise<ExportScope | undefined> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                {
+                    label: `$(file) ${vscode.l10n.t('Current file')}`,
+                    description: vscode.l10n.t('Notes of the open file'),
+                    scope: 'file' as const,
+                },
+                {
+                    label: `$(folder) ${vscode.l10n.t('Folder')}`,
+                    description: vscode.l10n.t('Notes of a folder and its subfolders'),
+                    scope: 'folder' as const,
+                },
+                {
+                    label: `$(root-folder) ${vscode.l10n.t('Workspace')}`,
+                    description: vscode.l10n.t('All notes'),
+                    scope: 'workspace' as const,
+                },
+            ],
+            { placeHolder: vscode.l10n.t('Which notes do you want to export?') }
+        );
+        return choice?.scope;
+    }
+
+    /**
+     * Ask which severities and tags to export. Skipped when every note has the
+     * same severity and no tag; resolves to undefined if cancelled.
+     */
+    private async pickFilter(notes: Note[]): Promise<NoteFilter | undefined> {
+        const severities = NOTE_SEVERITIES.filter(severity => notes.some(note => note.severity === severity));
+        const tags = getAllTags(notes);
+        if (severities.length <= 1 && tags.length === 0) {
+            return {};
+        }
+
+        const choices = await vscode.window.showQuickPick(
+            [
+                ...severities.map(severity => ({ label: getSeverityLabel(severity), severity, tag: undefined })),
+                ...tags.map(tag => ({ label: `#${tag}`, severity: undefined, tag })),
+            ],
+            { placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_EXPORT_FILTER), canPickMany: true }
+        );
+        if (!choices) {
+            return undefined;
+        }
+
+        return {
+            severities: choices.flatMap(choice => choice.severity ? [choice.severity] : []),
+            tags: choices.flatMap(choice => choice.tag ? [choice.tag] : []),
+        };
+    }
+
+    /**
+     * Ask where to write the report
+     */
+    private async pickDestination(): Promise<ExportDestination | undefined> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                {
+                    label: `$(new-file) ${vscode.l10n.t('New editor')}`,
+                    description: vscode.l10n.t('Open the report in an untitled editor'),
+                    destination: 'editor' as const,
+                },
+                {
+                    label: `$(save) ${vscode.l10n.t('File')}`,
+                    description: vscode.l10n.t('Save the report to disk'),
+                    destination: 'file' as const,
+                },
+                {
+                    label: `$(clippy) ${vscode.l10n.t('Clipboard')}`,
+                    description: vscode.l10n.t('Copy the report'),
+                    destination: 'clipboard' as const,
+                },
+            ],
+            { placeHolder: vscode.l10n.t('Where do you want to export the report?') }
+        );
+        return choice?.destination;
+    }
+
+    /**
+     * Write the report to the chosen destination
+     */
+    private async writeReport(markdown: string, destination: ExportDestination): Promise<void> {
+        switch (destination) {
+            case 'editor': {
+                const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: markdown });
+                await vscode.window.showTextDocument(document);
+                break;
+            }
+            case 'file': {
+                const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri;
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: workspaceRoot ? vscode.Uri.joinPath(workspaceRoot, 'bubulle-review.md') : undefined,
+                    filters: { Markdown: ['md'] },
+                });
+                if (!target) {
+                    return;
+                }
+                atomicWriteFile(target.fsPath, markdown);
+                vscode.window.showInformationMessage(
+                    vscode.l10n.t(UI_STRINGS.SUCCESS.REPORT_SAVED, { path: getRelativeDisplayPath(target.fsPath) })
+                );
+                break;
+            }
+            case 'clipboard':
+                await vscode.env.clipboard.writeText(markdown);
+                vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.REPORT_COPIED));
+                break;
+        }
+    }
+
+    /**
+     * Get the link target of a file, relative to the workspace like on GitHub
+     */
+    private getLinkPath(filePath: string): string {
+        return encodeURI(getRelativeDisplayPath(filePath).split(path.sep).join('/'));
+    }
+
+    /**
+     * Read the current lines of a file, preferring unsaved editor content
+     */
+    private readLines(filePath: string): string[] | undefined {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (document) {
+            return document.getText().split(/\r?\n/);
+        }
+
+        try {
+            return fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+        } catch (error) {
+            console.warn(`[BUBULLE] Could not read ${filePath} for export:`, error);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,334 @@
+/**
+ * Native comments integration showing notes as VS Code comment threads
+ */
+
+import * as vscode from 'vscode';
+import { NativeCommentActions, Note, NoteComment, NoteRange } from '../types';
+import { COMMANDS, EXTENSION_ID, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { BranchService } from './BranchService';
+import { NoteAnchorTracker } from './NoteAnchorTracker';
+import { hasPendingSuggestion } from '../utils/suggestionUtils';
+import { canEditNote, isLineNote } from '../utils/noteUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+import { getStatusLabel, getSeverityLabel, formatTimestamp } from '../utils/localeUtils';
+
+/**
+ * A note comment shown in a native comment thread
+ */
+class NoteCommentItem implements vscode.Comment {
+    public body: string | vscode.MarkdownString;
+    public mode = vscode.CommentMode.Preview;
+    public readonly author: vscode.CommentAuthorInformation;
+    public readonly label: string;
+    public readonly contextValue: string;
+
+    constructor(
+        public readonly noteId: string,
+        public readonly comment: NoteComment,
+        public readonly parent: vscode.CommentThread,
+        editable: boolean
+    ) {
+        this.body = toMarkdown(comment.body);
+        // Comments of someone else's draft have no edit and delete actions
+        this.contextValue = editable ? 'bubulleComment' : 'bubulleComment.readOnly';
+        this.author = { name: comment.author };
+        this.label = `${formatTimestamp(comment.createdAt)}${comment.editedAt ? ` ${vscode.l10n.t(UI_STRINGS.INFO.EDITED_LABEL)}` : ''}`;
+    }
+}
+
+/**
+ * Show a comment body as untrusted Markdown, without command links
+ */
+function toMarkdown(body: string): vscode.MarkdownString {
+    return new vscode.MarkdownString(stripCommandLinks(body));
+}
+
+export class NativeCommentsController {
+    private readonly controller: vscode.CommentController;
+    private readonly threads = new Map<string, vscode.CommentThread>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private notesStorage: NotesStorage,
+        private branches: BranchService,
+        private anchorTracker: NoteAnchorTracker,
+        private actions: NativeCommentActions
+    ) {
+        this.controller = vscode.comments.createCommentController(EXTENSION_ID, 'Bubulle');
+        this.controller.commentingRangeProvider = {
+            provideCommentingRanges: (document: vscode.TextDocument) => {
+                if (document.uri.scheme !== 'file') {
+                    return [];
+                }
+                return [new vscode.Range(0, 0, Math.max(document.lineCount - 1, 0), 0)];
+            },
+        };
+        this.controller.options = {
+            prompt: vscode.l10n.t(UI_STRINGS.PROMPTS.NATIVE_COMMENT_PROMPT),
+            placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.NATIVE_COMMENT_PLACEHOLDER),
+        };
+
+        this.registerCommands();
+        this.refresh();
+    }
+
+    /**
+     * Synchronize comment threads with the notes in storage
+     */
+    public refresh(): void {
+        try {
+            // Comment threads sit on lines, notes about a whole file or folder have none
+            const notes = this.notesStorage
+                .getAllNotesSorted()
+                .filter(note => isLineNote(note) && this.branches.isNoteVisible(note));
+            const noteIds = new Set(notes.map(note => note.id));
+
+            for (const [noteId, thread] of this.threads) {
+                if (!noteIds.has(noteId)) {
+                    thread.dispose();
+                    this.threads.delete(noteId);
+                }
+            }
+
+            notes.forEach(note => this.syncThread(note));
+        } catch (error) {
+            console.error('[BUBULLE] Error refreshing comment threads:', error);
+        }
+    }
+
+    /**
+     * Expand the comment thread of a note. Returns false when the note has no thread.
+     */
+    public expandThread(noteId: string): boolean {
+        const thread = this.threads.get(noteId);
+        if (!thread) {
+            return false;
+        }
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+        return true;
+    }
+
+    /**
+     * Create or update the thread of a note
+     */
+    private syncThread(note: Note): void {
+        const range = note.range
+            ? new vscode.Range(note.range.startLine, note.range.startCharacter, note.range.endLine, note.range.endCharacter)
+            : new vscode.Range(note.line, 0, note.line, 0);
+        let thread = this.threads.get(note.id);
+
+        if (!thread) {
+            thread = this.controller.createCommentThread(vscode.Uri.file(note.filePath), range, []);
+            this.threads.set(note.id, thread);
+        } else if (!thread.range?.isEqual(range)) {
+            thread.range = range;
+        }
+
+        // Threads with a pending suggestion get the apply and preview actions,
+        // drafts of another reviewer get none
+        const editable = canEditNote(note);
+        thread.canReply = editable;
+        if (!editable) {
+            thread.contextValue = 'bubulleDraft';
+        } else {
+            thread.contextValue = hasPendingSuggestion(note) ? 'bubulleNoteWithSuggestion' : 'bubulleNote';
+        }
+
+        const labels = [
+            note.draft ? vscode.l10n.t(UI_STRINGS.INFO.DRAFT_LABEL) : undefined,
+            note.branch ? vscode.l10n.t(UI_STRINGS.INFO.BRANCH_LABEL, { branch: note.branch }) : undefined,
+            note.status !== 'open' ? getStatusLabel(note.status) : undefined,
+            note.severity !== 'info' ? getSeverityLabel(note.severity) : undefined,
+            ...(note.tags ?? []).map(tag => `#${tag}`),
+            hasPendingSuggestion(note) ? vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_LABEL) : undefined,
+            note.outdated ? vscode.l10n.t(UI_STRINGS.INFO.NOTE_OUTDATED) : undefined,
+        ].filter(Boolean);
+        thread.label = labels.length > 0 ? labels.join(' • ') : undefined;
+
+        // Keep comments being edited untouched so typing isn't lost on refresh
+        const isEditing = thread.comments.some(comment => comment.mode === vscode.CommentMode.Editing);
+        if (!isEditing) {
+            thread.comments = note.comments.map(comment => new NoteCommentItem(note.id, comment, thread!, editable));
+        }
+    }
+
+    /**
+     * Find the note a thread belongs to
+     */
+    private getNoteIdForThread(thread: vscode.CommentThread): string | undefined {
+        for (const [noteId, noteThread] of this.threads) {
+            if (noteThread === thread) {
+                return noteId;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Register the commands used by the comment widgets
+     */
+    private registerCommands(): void {
+        const createNote = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_CREATE_NOTE,
+            (reply: vscode.CommentReply) => this.createNote(reply)
+        );
+
+        const replyToNote = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_REPLY,
+            (reply: vscode.CommentReply) => this.replyToNote(reply)
+        );
+
+        const editComment = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_EDIT,
+            (comment: NoteCommentItem) => this.setMode(comment, vscode.CommentMode.Editing)
+        );
+
+        const saveComment = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_SAVE,
+            (comment: NoteCommentItem) => this.saveComment(comment)
+        );
+
+        const cancelEdit = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_CANCEL,
+            (comment: NoteCommentItem) => {
+                comment.body = toMarkdown(comment.comment.body);
+                this.setMode(comment, vscode.CommentMode.Preview);
+            }
+        );
+
+        const deleteComment = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_DELETE,
+            (comment: NoteCommentItem) => this.deleteComment(comment)
+        );
+
+        const deleteNote = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_DELETE_NOTE,
+            (thread: vscode.CommentThread) => this.deleteNote(thread)
+        );
+
+        const applySuggestion = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_APPLY_SUGGESTION,
+            (thread: vscode.CommentThread) =>
+                vscode.commands.executeCommand(COMMANDS.APPLY_SUGGESTION, this.getNoteIdForThread(thread))
+        );
+
+        const previewSuggestion = vscode.commands.registerCommand(
+            COMMANDS.COMMENTS_PREVIEW_SUGGESTION,
+            (thread: vscode.CommentThread) =>
+                vscode.commands.executeCommand(COMMANDS.PREVIEW_SUGGESTION, this.getNoteIdForThread(thread))
+        );
+
+        this.disposables.push(
+            createNote,
+            replyToNote,
+            editComment,
+            saveComment,
+            cancelEdit,
+            deleteComment,
+            deleteNote,
+            applySuggestion,
+            previewSuggestion
+        );
+    }
+
+    /**
+     * Create a note from a new comment thread
+     */
+    private createNote(reply: vscode.CommentReply): void {
+        const filePath = reply.thread.uri.fsPath;
+        const threadRange = reply.thread.range;
+        const line = threadRange?.end.line ?? 0;
+        const range: NoteRange | undefined = threadRange && !threadRange.isSingleLine
+            ? {
+                startLine: threadRange.start.line,
+                startCharacter: threadRange.start.character,
+                endLine: threadRange.end.line,
+                endCharacter: threadRange.end.character,
+            }
+            : undefined;
+        // The draft thread is replaced by the one created for the stored note
+        reply.thread.dispose();
+
+        const existingNote = this.notesStorage.getNoteAt(filePath, line);
+        const success = existingNote
+            ? this.notesStorage.addComment(existingNote.id, reply.text)
+            : this.notesStorage.createNote(filePath, line, reply.text, this.anchorTracker.getAnchor(filePath, line), range);
+
+        if (!success) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.ADD_NOTE_ERROR));
+        }
+        this.refresh();
+    }
+
+    /**
+     * Add a reply to the note of a thread
+     */
+    private replyToNote(reply: vscode.CommentReply): void {
+        const noteId = this.getNoteIdForThread(reply.thread);
+        if (!noteId || !this.notesStorage.addComment(noteId, reply.text)) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+        }
+        this.refresh();
+    }
+
+    /**
+     * Write an edited comment back to storage
+     */
+    private saveComment(comment: NoteCommentItem): void {
+        // The editor gives back plain text, the preview a Markdown string
+        const body = typeof comment.body === 'string' ? comment.body : comment.body.value;
+        if (!body.trim()) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.PROMPTS.EMPTY_NOTE));
+            return;
+        }
+
+        this.setMode(comment, vscode.CommentMode.Preview);
+        if (!this.notesStorage.updateComment(comment.noteId, comment.comment.id, body)) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+        }
+        this.refresh();
+    }
+
+    /**
+     * Delete a comment once confirmed, and its note when it was the last one
+     */
+    private async deleteComment(comment: NoteCommentItem): Promise<void> {
+        await this.actions.onDeleteComment(comment.noteId, comment.comment.id);
+        this.refresh();
+    }
+
+    /**
+     * Delete the note of a thread once confirmed
+     */
+    private async deleteNote(thread: vscode.CommentThread): Promise<void> {
+        const noteId = this.getNoteIdForThread(thread);
+        const note = noteId ? this.notesStorage.getNoteById(noteId) : undefined;
+        if (!note) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return;
+        }
+        await this.actions.onDeleteNote(note);
+        this.refresh();
+    }
+
+    /**
+     * Switch the display mode of a comment
+     */
+    private setMode(comment: NoteCommentItem, mode: vscode.CommentMode): void {
+        comment.mode = mode;
+        // Reassigning the comments makes VS Code re-render the thread
+        comment.parent.comments = comment.parent.comments.map(item => item);
+    }
+
+    /**
+     * Dispose of all threads, the controller and the comment commands, so the
+     * inline icons can take over when the setting is turned off
+     */
+    public dispose(): void {
+        this.threads.forEach(thread => thread.dispose());
+        this.threads.clear();
+        this.controller.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
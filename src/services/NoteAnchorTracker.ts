@@ -0,0 +1,213 @@
+/**
+ * Anchor tracker keeping notes attached to their code while files change
+ */
+
+import * as vscode from 'vscode';
+import { Note, NoteAnchor } from '../types';
+import { NotesStorage } from './NotesStorage';
+import { LineChange, createAnchor, findAnchorLine, shiftLine } from '../utils/anchorUtils';
+
+export class NoteAnchorTracker {
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage
+    ) {
+        this.registerDocumentHandlers();
+        vscode.workspace.textDocuments.forEach(document => this.reanchorDocument(document));
+    }
+
+    /**
+     * Capture the anchor of a line in an open document
+     */
+    public getAnchor(filePath: string, line: number): NoteAnchor | undefined {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+        if (!document || line >= document.lineCount) {
+            return undefined;
+        }
+        return createAnchor(this.getLines(document), line);
+    }
+
+    /**
+     * Register handlers for document edits, saves and opens
+     */
+    private registerDocumentHandlers(): void {
+        const onDidChange = vscode.workspace.onDidChangeTextDocument(event => {
+            this.shiftNotes(event);
+        });
+
+        const onDidSave = vscode.workspace.onDidSaveTextDocument(document => {
+            this.refreshAnchors(document);
+            this.notesStorage.saveNotesForFile(document.uri.fsPath);
+        });
+
+        const onDidOpen = vscode.workspace.onDidOpenTextDocument(document => {
+            this.reanchorDocument(document);
+        });
+
+        this.context.subscriptions.push(onDidChange, onDidSave, onDidOpen);
+    }
+
+    /**
+     * Move notes with the lines inserted or removed above them. The notes
+     * file is only written when the document is saved.
+     */
+    private shiftNotes(event: vscode.TextDocumentChangeEvent): void {
+        if (event.document.uri.scheme !== 'file' || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const filePath = event.document.uri.fsPath;
+        const notes = this.notesStorage.getNotesForFile(filePath);
+        if (notes.length === 0) {
+            return;
+        }
+
+        // Apply bottom-most changes first so earlier ranges stay valid
+        const changes = [...event.contentChanges]
+            .sort((a, b) => b.range.start.compareTo(a.range.start))
+            .map(change => this.toLineChange(change));
+
+        const shift = (line: number) => changes.reduce((current, change) => shiftLine(current, change), line);
+
+        let moved = false;
+        const shiftedNotes = notes.map(note => {
+            const line = shift(note.line);
+            const startLine = note.range ? shift(note.range.startLine) : line;
+            if (line === note.line && startLine === (note.range?.startLine ?? note.line)) {
+                return note;
+            }
+            moved = true;
+            return note.range
+                ? { ...note, line, range: { ...note.range, startLine, endLine: line } }
+                : { ...note, line };
+        });
+
+        if (moved) {
+            this.notesStorage.moveNotesForFile(filePath, shiftedNotes);
+        }
+    }
+
+    /**
+     * Re-capture anchors once edits are written to disk
+     */
+    private refreshAnchors(document: vscode.TextDocument): void {
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const filePath = document.uri.fsPath;
+        const notes = this.notesStorage.getNotesForFile(filePath);
+        const lines = this.getLines(document);
+
+        let changed = false;
+        const updatedNotes = notes.map(note => {
+            if (note.outdated || note.line >= lines.length) {
+                return note;
+            }
+            const anchor = createAnchor(lines, note.line);
+            if (note.anchor?.hash === anchor.hash) {
+                return note;
+            }
+            changed = true;
+            return { ...note, anchor };
+        });
+
+        if (changed) {
+            this.notesStorage.replaceNotesForFile(filePath, updatedNotes);
+        }
+    }
+
+    /**
+     * Re-attach notes to their code when the file changed outside VS Code.
+     * Notes whose code can't be found anymore are marked as outdated.
+     */
+    private reanchorDocument(document: vscode.TextDocument): void {
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const filePath = document.uri.fsPath;
+        const notes = this.notesStorage.getNotesForFile(filePath);
+        if (notes.length === 0) {
+            return;
+        }
+
+        const lines = this.getLines(document);
+        let changed = false;
+        const updatedNotes = notes.map(note => {
+            const updated = this.reanchorNote(note, lines);
+            if (updated !== note) {
+                changed = true;
+            }
+            return updated;
+        });
+
+        if (changed && this.notesStorage.replaceNotesForFile(filePath, updatedNotes)) {
+            console.log(`[BUBULLE] Re-anchored notes for ${filePath}`);
+        }
+    }
+
+    /**
+     * Find the current line of a single note
+     */
+    private reanchorNote(note: Note, lines: string[]): Note {
+        // Notes created before anchoring existed adopt their current line
+        if (!note.anchor) {
+            return note.line < lines.length ? { ...note, anchor: createAnchor(lines, note.line) } : note;
+        }
+
+        const line = findAnchorLine(lines, note.anchor, note.line);
+        if (line === undefined) {
+            return note.outdated ? note : { ...note, outdated: true };
+        }
+
+        if (line === note.line && !note.outdated) {
+            return note;
+        }
+
+        const reanchored: Note = { ...this.moveNote(note, line), anchor: createAnchor(lines, line) };
+        delete reanchored.outdated;
+        return reanchored;
+    }
+
+    /**
+     * Move a note to another line, keeping the size of its range
+     */
+    private moveNote(note: Note, line: number): Note {
+        if (!note.range) {
+            return { ...note, line };
+        }
+
+        const delta = line - note.line;
+        return {
+            ...note,
+            line,
+            range: {
+                ...note.range,
+                startLine: Math.max(0, note.range.startLine + delta),
+                endLine: line,
+            },
+        };
+    }
+
+    /**
+     * Convert a VS Code content change to a line change
+     */
+    private toLineChange(change: vscode.TextDocumentContentChangeEvent): LineChange {
+        return {
+            startLine: change.range.start.line,
+            startCharacter: change.range.start.character,
+            endLine: change.range.end.line,
+            endCharacter: change.range.end.character,
+            insertedLineCount: (change.text.match(/\n/g) || []).length,
+            insertedTextEndsWithNewline: change.text.endsWith('\n'),
+        };
+    }
+
+    /**
+     * Get the lines of a document
+     */
+    private getLines(document: vscode.TextDocument): string[] {
+        return document.getText().split(/\r?\n/);
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Explorer badges counting the open notes of each file and folder
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { BranchService } from './BranchService';
+
+export class NoteBadgeProvider implements vscode.FileDecorationProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<undefined>();
+    /** Open notes of each path, folders counting the notes of everything inside them */
+    private counts?: Map<string, number>;
+
+    public readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage,
+        private branches: BranchService
+    ) {
+        const refresh = () => this.refresh();
+        this.context.subscriptions.push(
+            this.changeEmitter,
+            vscode.window.registerFileDecorationProvider(this),
+            this.notesStorage.onDidChangeNotes(refresh),
+            this.branches.onDidChangeBranch(refresh),
+            vscode.workspace.onDidChangeWorkspaceFolders(refresh)
+        );
+    }
+
+    /**
+     * Count the notes again and update every badge
+     */
+    public refresh(): void {
+        this.counts = undefined;
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Get the badge of a file or folder, when it has open notes
+     */
+    public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const count = this.getCounts().get(path.resolve(uri.fsPath));
+        if (!count) {
+            return undefined;
+        }
+
+        // Badges hold two characters at most
+        return new vscode.FileDecoration(
+            count > 9 ? '9+' : String(count),
+            vscode.l10n.t(UI_STRINGS.INFO.OPEN_NOTES_COUNT, { count })
+        );
+    }
+
+    /**
+     * Count the open notes shown on the current branches, on their path and
+     * on every folder above it up to its workspace folder
+     */
+    private getCounts(): Map<string, number> {
+        if (this.counts) {
+            return this.counts;
+        }
+
+        const counts = new Map<string, number>();
+        const count = (filePath: string) => counts.set(filePath, (counts.get(filePath) ?? 0) + 1);
+        const notes = this.notesStorage
+            .getAllNotesSorted()
+            .filter(note => note.status === 'open' && this.branches.isNoteVisible(note));
+
+        for (const note of notes) {
+            let current = path.resolve(note.filePath);
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(current));
+            const root = folder ? path.resolve(folder.uri.fsPath) : current;
+            count(current);
+            while (current !== root && path.dirname(current) !== current) {
+                current = path.dirname(current);
+                count(current);
+            }
+        }
+
+        this.counts = counts;
+        return counts;
+    }
+}
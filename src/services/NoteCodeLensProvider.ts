@@ -0,0 +1,125 @@
+/**
+ * CodeLens summary above the code of notes
+ */
+
+import * as vscode from 'vscode';
+import { CodeLensActions, Note } from '../types';
+import { COMMANDS, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { BranchService } from './BranchService';
+import { getExtensionConfig } from '../utils/fileUtils';
+import { truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { getSeverityLabel, getStatusLabel } from '../utils/localeUtils';
+
+export class NoteCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage,
+        private branches: BranchService,
+        private actions: CodeLensActions
+    ) {
+        const refresh = () => this.refresh();
+        this.registerCommands();
+        this.context.subscriptions.push(
+            this.changeEmitter,
+            vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+            this.notesStorage.onDidChangeNotes(refresh),
+            this.branches.onDidChangeBranch(refresh)
+        );
+    }
+
+    /**
+     * Ask VS Code for the lenses of the visible editors again
+     */
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Get one lens per annotated line or range, above its first line. Notes
+     * come from the per-file index and the lenses are built in a single pass,
+     * without reading the document, so files with many notes stay responsive.
+     */
+    public provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.CodeLens[] {
+        const config = getExtensionConfig();
+        if (config.displayMode === 'inline') {
+            return [];
+        }
+
+        const groups = new Map<number, Note[]>();
+        for (const note of this.notesStorage.getNotesForFile(document.uri.fsPath)) {
+            if (!this.branches.isNoteVisible(note) || (!config.showResolvedNotes && note.status !== 'open')) {
+                continue;
+            }
+            // Notes past the end of the document are shown on its last line
+            const line = Math.min(note.range?.startLine ?? note.line, document.lineCount - 1);
+            const group = groups.get(line);
+            if (group) {
+                group.push(note);
+            } else {
+                groups.set(line, [note]);
+            }
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const [line, notes] of groups) {
+            if (token.isCancellationRequested) {
+                return [];
+            }
+            const open = notes.filter(note => note.status === 'open').length;
+            lenses.push(new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+                title: vscode.l10n.t(UI_STRINGS.INFO.CODE_LENS_TITLE, { count: notes.length, open }),
+                tooltip: truncateText(getNoteText(notes[0])),
+                command: COMMANDS.CODE_LENS_OPEN_NOTES,
+                arguments: [notes.map(note => note.id)],
+            }));
+        }
+        return lenses;
+    }
+
+    /**
+     * Register the command run by clicking a lens
+     */
+    private registerCommands(): void {
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand(COMMANDS.CODE_LENS_OPEN_NOTES, (noteIds: string[]) => this.openNotes(noteIds))
+        );
+    }
+
+    /**
+     * Open the note of a lens, asking which one when the lines have several
+     */
+    private async openNotes(noteIds: string[]): Promise<void> {
+        const notes = noteIds
+            .map(noteId => this.notesStorage.getNoteById(noteId))
+            .filter((note): note is Note => note !== undefined);
+        if (notes.length <= 1) {
+            if (notes[0]) {
+                this.actions.onOpenNote(notes[0]);
+            }
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            notes.map(note => ({
+                label: truncateText(getNoteText(note)),
+                description: [
+                    getNoteLocationLabel(note),
+                    getStatusLabel(note.status),
+                    note.severity !== 'info' ? getSeverityLabel(note.severity) : undefined,
+                ].filter(Boolean).join(' • '),
+                detail: note.comments[0]?.author,
+                note,
+            })),
+            { placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_CODE_LENS_NOTE, { count: notes.length }) }
+        );
+        if (picked) {
+            this.actions.onOpenNote(picked.note);
+        }
+    }
+}
@@ -0,0 +1,224 @@
+/**
+ * File tracker keeping notes attached to files that are renamed, moved or deleted
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Note } from '../types';
+import { UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { formatString, truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+
+export class NoteFileTracker {
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage
+    ) {
+        this.registerFileHandlers();
+    }
+
+    /**
+     * Register handlers for files renamed or deleted from VS Code
+     */
+    private registerFileHandlers(): void {
+        const onDidRename = vscode.workspace.onDidRenameFiles(event => {
+            event.files.forEach(({ oldUri, newUri }) => this.moveNotes(oldUri, newUri));
+        });
+
+        const onDidDelete = vscode.workspace.onDidDeleteFiles(event => {
+            this.handleDeletedFiles(event.files);
+        });
+
+        this.context.subscriptions.push(onDidRename, onDidDelete);
+    }
+
+    /**
+     * Move the notes of a renamed file or folder
+     */
+    private moveNotes(oldUri: vscode.Uri, newUri: vscode.Uri): void {
+        if (oldUri.scheme !== 'file' || newUri.scheme !== 'file') {
+            return;
+        }
+
+        const moved = this.notesStorage.moveNotes(oldUri.fsPath, newUri.fsPath);
+        if (moved > 0) {
+            console.log(`[BUBULLE] Moved ${moved} notes from ${oldUri.fsPath} to ${newUri.fsPath}`);
+        }
+    }
+
+    /**
+     * Ask what to do with the notes of deleted files: archive, delete or keep them
+     */
+    private async handleDeletedFiles(uris: readonly vscode.Uri[]): Promise<void> {
+        const notes = uris
+            .filter(uri => uri.scheme === 'file')
+            .flatMap(uri => this.notesStorage.getNotesUnder(uri.fsPath));
+        if (notes.length === 0) {
+            return;
+        }
+
+        const fileName = uris.length === 1 ? path.basename(uris[0].fsPath) : vscode.l10n.t('{count} files', { count: uris.length });
+        const archive = vscode.l10n.t('Archive');
+        const remove = vscode.l10n.t('Delete');
+        const choice = await vscode.window.showWarningMessage(
+            vscode.l10n.t(UI_STRINGS.PROMPTS.DELETED_FILE_NOTES, { count: notes.length, fileName }),
+            archive,
+            remove,
+            vscode.l10n.t('Keep')
+        );
+
+        if (choice === archive) {
+            this.archiveNotes(notes);
+        } else if (choice === remove) {
+            const deleted = this.notesStorage.deleteNotes(notes.map(note => note.id));
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTES_DELETED, { count: deleted }));
+        }
+    }
+
+    /**
+     * List notes whose file no longer exists and let the user reattach,
+     * archive or delete them one by one
+     */
+    public async findOrphanedNotes(): Promise<void> {
+        let orphans = this.notesStorage.getOrphanedNotes();
+        if (orphans.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_ORPHANED_NOTES));
+            return;
+        }
+
+        while (orphans.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                orphans.map(note => ({
+                    label: `$(warning) ${getRelativeDisplayPath(note.filePath)}`,
+                    description: getNoteLocationLabel(note),
+                    detail: truncateText(getNoteText(note)),
+                    note,
+                })),
+                {
+                    placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_ORPHANED_NOTE, { count: orphans.length }),
+                    matchOnDetail: true,
+                }
+            );
+            if (!picked) {
+                return;
+            }
+
+            await this.handleOrphanedNote(picked.note);
+            orphans = this.notesStorage.getOrphanedNotes();
+        }
+    }
+
+    /**
+     * Reattach, archive or delete a single orphaned note
+     */
+    private async handleOrphanedNote(note: Note): Promise<void> {
+        const choice = await vscode.window.showQuickPick(
+            [
+                {
+                    label: `$(file-symlink-file) ${vscode.l10n.t('Reattach')}`,
+                    description: vscode.l10n.t('Pick the file where this code now lives'),
+                    action: 'reattach' as const,
+                },
+                {
+                    label: `$(archive) ${vscode.l10n.t('Archive')}`,
+                    description: vscode.l10n.t('Remove the note but keep it in the archive file'),
+                    action: 'archive' as const,
+                },
+                {
+                    label: `$(trash) ${vscode.l10n.t('Delete')}`,
+                    description: vscode.l10n.t('Delete this note for good'),
+                    action: 'delete' as const,
+                },
+            ],
+            { placeHolder: `${getRelativeDisplayPath(note.filePath)} (${getNoteLocationLabel(note)})` }
+        );
+
+        switch (choice?.action) {
+            case 'reattach':
+                await this.reattachNote(note);
+                break;
+            case 'archive':
+                this.archiveNotes([note]);
+                break;
+            case 'delete':
+                if (this.notesStorage.deleteNote(note.id)) {
+                    vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_DELETED));
+                }
+                break;
+        }
+    }
+
+    /**
+     * Attach a note to a file, or folder for a folder note, picked by the user
+     * and open it there
+     */
+    private async reattachNote(note: Note): Promise<void> {
+        const isFolder = note.subject === 'folder';
+        const files = await vscode.window.showOpenDialog({
+            canSelectFiles: !isFolder,
+            canSelectFolders: isFolder,
+            canSelectMany: false,
+            defaultUri: this.getExistingFolder(note.filePath),
+            openLabel: vscode.l10n.t('Reattach'),
+        });
+        if (!files?.[0]) {
+            return;
+        }
+
+        const updated = this.notesStorage.reattachNote(note.id, files[0].fsPath);
+        if (!updated) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+            return;
+        }
+
+        vscode.window.showInformationMessage(
+            vscode.l10n.t(UI_STRINGS.SUCCESS.NOTE_REATTACHED, { fileName: getRelativeDisplayPath(updated.filePath) })
+        );
+
+        if (isFolder) {
+            await vscode.commands.executeCommand('revealInExplorer', files[0]);
+            return;
+        }
+
+        // Opening the file lets the anchor find the note's line in its new file
+        const document = await vscode.workspace.openTextDocument(updated.filePath);
+        const line = Math.min(updated.line, document.lineCount - 1);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(line, 0, line, 0) });
+    }
+
+    /**
+     * Archive notes and report where they went
+     */
+    private archiveNotes(notes: Note[]): void {
+        const archived = this.notesStorage.archiveNotes(notes.map(note => note.id));
+        if (archived === 0) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.UPDATE_NOTE_ERROR));
+            return;
+        }
+
+        vscode.window.showInformationMessage(
+            vscode.l10n.t(UI_STRINGS.SUCCESS.NOTES_ARCHIVED, {
+                count: archived,
+                path: getRelativeDisplayPath(this.notesStorage.getArchiveFilePath(notes[0].filePath)),
+            })
+        );
+    }
+
+    /**
+     * Get the closest folder of a missing file that still exists
+     */
+    private getExistingFolder(filePath: string): vscode.Uri | undefined {
+        let folder = path.dirname(filePath);
+        while (!fs.existsSync(folder)) {
+            const parent = path.dirname(folder);
+            if (parent === folder) {
+                return vscode.workspace.workspaceFolders?.[0]?.uri;
+            }
+            folder = parent;
+        }
+        return vscode.Uri.file(folder);
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Navigation between notes: next and previous note, and a searchable list of notes
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Note, NoteNavigationDirection } from '../types';
+import { UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getExtensionConfig, getRelativeDisplayPath } from '../utils/fileUtils';
+import { truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText, isLineNote } from '../utils/noteUtils';
+import { findAdjacentNote } from '../utils/navigationUtils';
+import { getStatusLabel, getSeverityLabel } from '../utils/localeUtils';
+
+interface NoteQuickPickItem extends vscode.QuickPickItem {
+    note: Note;
+}
+
+export class NoteNavigator {
+    constructor(private notesStorage: NotesStorage) {}
+
+    /**
+     * Move to the next or previous note shown in the editor. Notes of the
+     * current file come first, then the notes of the following files, in
+     * workspace order, wrapping around at the end.
+     */
+    public async goToAdjacentNote(direction: NoteNavigationDirection): Promise<void> {
+        const showClosedNotes = getExtensionConfig().showResolvedNotes;
+        const notes = this.notesStorage
+            .getAllNotesSorted()
+            .filter(note => isLineNote(note) && (showClosedNotes || note.status === 'open') && fs.existsSync(note.filePath));
+
+        const editor = vscode.window.activeTextEditor;
+        const filePath = editor?.document.uri.scheme === 'file' ? path.resolve(editor.document.uri.fsPath) : undefined;
+        const note = findAdjacentNote(notes, filePath, editor?.selection.active.line ?? 0, direction);
+        if (!note) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_FOUND));
+            return;
+        }
+
+        await this.revealNote(note);
+    }
+
+    /**
+     * Search notes by text, file name and tags. The editor previews each note
+     * as it is highlighted and goes back where it was if the search is cancelled.
+     */
+    public async goToNote(): Promise<void> {
+        // Notes about a whole file open it at the top, folders have nothing to show
+        const notes = this.notesStorage
+            .getAllNotesSorted()
+            .filter(note => note.subject !== 'folder' && fs.existsSync(note.filePath));
+        if (notes.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_FOUND));
+            return;
+        }
+
+        const originalEditor = vscode.window.activeTextEditor;
+        const originalSelection = originalEditor?.selection;
+        const quickPick = vscode.window.createQuickPick<NoteQuickPickItem>();
+        quickPick.placeholder = vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_NOTE);
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.items = notes.map(note => this.toQuickPickItem(note));
+
+        let accepted = false;
+        quickPick.onDidChangeActive(([item]) => {
+            if (item) {
+                this.revealNote(item.note, true);
+            }
+        });
+        quickPick.onDidAccept(() => {
+            const [item] = quickPick.selectedItems;
+            if (item) {
+                accepted = true;
+                this.revealNote(item.note);
+            }
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            if (!accepted && originalEditor && originalSelection) {
+                vscode.window.showTextDocument(originalEditor.document, {
+                    viewColumn: originalEditor.viewColumn,
+                    selection: originalSelection,
+                });
+            }
+        });
+        quickPick.show();
+    }
+
+    /**
+     * Build the quick pick item of a note, searchable by text, file and tags
+     */
+    private toQuickPickItem(note: Note): NoteQuickPickItem {
+        const labels = [
+            note.status !== 'open' ? getStatusLabel(note.status) : undefined,
+            note.severity !== 'info' ? getSeverityLabel(note.severity) : undefined,
+            ...(note.tags ?? []).map(tag => `#${tag}`),
+        ].filter(Boolean);
+
+        return {
+            label: `${note.status === 'open' ? '$(comment)' : '$(pass)'} ${truncateText(getNoteText(note))}`,
+            description: `${getRelativeDisplayPath(note.filePath)} • ${getNoteLocationLabel(note)}`,
+            detail: labels.length > 0 ? labels.join(' ') : undefined,
+            note,
+        };
+    }
+
+    /**
+     * Show the lines of a note, in a preview editor that keeps the focus when previewing
+     */
+    private async revealNote(note: Note, preview = false): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(note.filePath);
+            const line = Math.min(note.range?.startLine ?? note.line, document.lineCount - 1);
+            const position = new vscode.Position(line, 0);
+            const editor = await vscode.window.showTextDocument(document, {
+                preview,
+                preserveFocus: preview,
+                selection: new vscode.Range(position, position),
+            });
+            editor.revealRange(
+                new vscode.Range(line, 0, Math.min(note.line, document.lineCount - 1), 0),
+                vscode.TextEditorRevealType.InCenterIfOutsideViewport
+            );
+        } catch (error) {
+            console.error('[BUBULLE] Error revealing note:', error);
+            vscode.window.showErrorMessage(`${vscode.l10n.t(UI_STRINGS.ERRORS.OPEN_FILE_ERROR)}: ${path.basename(note.filePath)}`);
+        }
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Revision service showing notes against the git revision they were written on
+ */
+
+import * as vscode from 'vscode';
+import { COMMANDS, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { getNoteText } from '../utils/noteUtils';
+import { readGitRevision, shortenCommit } from '../utils/gitUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+
+const REVISION_SCHEME = 'bubulle-revision';
+
+export class NoteRevisionService implements vscode.TextDocumentContentProvider {
+    private readonly noteDecorationType = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        after: {
+            contentText: ' 🫧',
+            margin: '0 0 0 1em',
+        },
+    });
+    /** Content read before opening a revision diff, served once to its document */
+    private readonly pendingContents = new Map<string, string>();
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage
+    ) {
+        this.context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, this),
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.decorateNote(editor))),
+            this.noteDecorationType
+        );
+        this.registerCommands();
+    }
+
+    /**
+     * Open a diff between the file at the commit a note was written on and the
+     * working copy, with the note shown on the old side
+     */
+    public async showOriginalRevision(noteId: string): Promise<void> {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (!note?.revision) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return;
+        }
+
+        const commit = shortenCommit(note.revision.commit);
+        const content = await readGitRevision(note.filePath, note.revision);
+        if (content === undefined) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.REVISION_UNAVAILABLE, { commit }));
+            return;
+        }
+
+        const fileUri = vscode.Uri.file(note.filePath);
+        const revisionUri = fileUri.with({ scheme: REVISION_SCHEME, query: note.id });
+        this.pendingContents.set(revisionUri.toString(), content);
+        const title = vscode.l10n.t('{fileName} at {commit} ↔ Working copy', {
+            fileName: getRelativeDisplayPath(note.filePath),
+            commit,
+        });
+        await vscode.commands.executeCommand('vscode.diff', revisionUri, fileUri, title);
+    }
+
+    /**
+     * Provide the content of a file at the revision a note was written on,
+     * reading it again only for documents reopened later
+     */
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const pending = this.pendingContents.get(uri.toString());
+        if (pending !== undefined) {
+            this.pendingContents.delete(uri.toString());
+            return pending;
+        }
+
+        const note = this.notesStorage.getNoteById(uri.query);
+        if (!note?.revision) {
+            return '';
+        }
+        return (await readGitRevision(uri.fsPath, note.revision)) ?? '';
+    }
+
+    /**
+     * Highlight the note on the old side of a revision diff and scroll to it
+     */
+    private decorateNote(editor: vscode.TextEditor): void {
+        if (editor.document.uri.scheme !== REVISION_SCHEME) {
+            return;
+        }
+        const note = this.notesStorage.getNoteById(editor.document.uri.query);
+        if (!note?.revision || editor.document.lineCount === 0) {
+            return;
+        }
+
+        const line = Math.min(note.revision.line, editor.document.lineCount - 1);
+        const range = editor.document.lineAt(line).range;
+        const hoverMessage = new vscode.MarkdownString();
+        hoverMessage.appendText(note.comments[0].author);
+        hoverMessage.appendMarkdown(`\n\n${stripCommandLinks(getNoteText(note))}`);
+
+        editor.setDecorations(this.noteDecorationType, [{ range, hoverMessage }]);
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    /**
+     * Register the command used by hover links. Without a note id it acts on
+     * the note at the cursor.
+     */
+    private registerCommands(): void {
+        const viewOriginalRevision = vscode.commands.registerCommand(
+            COMMANDS.VIEW_ORIGINAL_REVISION,
+            async (noteId?: string) => {
+                const id = noteId ?? this.getNoteIdAtCursor();
+                if (id) {
+                    await this.showOriginalRevision(id);
+                }
+            }
+        );
+
+        this.context.subscriptions.push(viewOriginalRevision);
+    }
+
+    /**
+     * Get the note with a recorded revision on the cursor line of the active editor
+     */
+    private getNoteIdAtCursor(): string | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const note = editor
+            ? this.notesStorage.getNoteAt(editor.document.uri.fsPath, editor.selection.active.line)
+            : undefined;
+        if (!note?.revision) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_REVISION_AT_CURSOR));
+            return undefined;
+        }
+        return note.id;
+    }
+}
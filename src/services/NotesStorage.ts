@@ -5,163 +5,705 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { Note, NotesData } from '../types';
-import { UI_STRINGS } from '../constants';
-import { getNotesFilePath, atomicWriteFile, safeReadFile, backupCorruptedFile } from '../utils/fileUtils';
+import {
+    Note,
+    NoteAnchor,
+    NoteComment,
+    NoteLabels,
+    NoteRange,
+    NoteStatus,
+    NoteSubject,
+    NoteSuggestion,
+    NotesChangeEvent,
+    NotesData,
+    NotesStore,
+    NoteReview,
+    NoteRevision
+} from '../types';
+import { DEFAULT_CONFIG, NOTE_STATUS_LABELS, REVIEW_VERDICT_LABELS, UI_STRINGS } from '../constants';
+import {
+    getNotesFilePath,
+    getLegacyNotesFilePath,
+    getArchiveFilePath,
+    isSameOrInside,
+    getRelativeDisplayPath,
+    toStoredPath,
+    fromStoredPath,
+    atomicWriteFile,
+    safeReadFile,
+    backupCorruptedFile,
+    getExtensionConfig
+} from '../utils/fileUtils';
+import { formatString } from '../utils/textUtils';
+import { createComment, generateId, isLineNote } from '../utils/noteUtils';
+import { isNoteSeverity, normalizeTag } from '../utils/categoryUtils';
+import { compareNotes } from '../utils/navigationUtils';
+import { getCurrentBranch, getGitRevision } from '../utils/gitUtils';
+
+const NOTE_STATUSES = Object.keys(NOTE_STATUS_LABELS);
+const REVIEW_VERDICTS = Object.keys(REVIEW_VERDICT_LABELS);
 
 export class NotesStorage {
-    private notesFilePath: string | null = null;
+    private readonly changeEmitter = new vscode.EventEmitter<NotesChangeEvent>();
+    private readonly reviewsChangeEmitter = new vscode.EventEmitter<void>();
+    private notes?: Note[];
+    private reviews?: NoteReview[];
+    private activeReviewId?: string;
+    private notesByFile = new Map<string, Note[]>();
+    private readonly knownContent = new Map<string, string>();
+    /** Files whose notes moved in memory only, written with the next save */
+    private readonly unsavedFiles = new Set<string>();
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private watchedStores: NotesStore[] = [];
+
+    /**
+     * Fired when notes changed, from this window or from an external edit of a notes file
+     */
+    public readonly onDidChangeNotes = this.changeEmitter.event;
+
+    /**
+     * Fired when a review was finished, or when the reviews were reloaded from disk
+     */
+    public readonly onDidChangeReviews = this.reviewsChangeEmitter.event;
 
-    constructor() {
-        // Don't initialize the path here, do it lazily when needed
+    constructor(private readonly context: vscode.ExtensionContext) {
+        this.watchStores();
+
+        const onDidChangeWorkspaceFolders = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            this.watchStores();
+            this.reload();
+        });
+
+        context.subscriptions.push(
+            this.changeEmitter,
+            this.reviewsChangeEmitter,
+            onDidChangeWorkspaceFolders,
+            new vscode.Disposable(() => this.watchers.forEach(watcher => watcher.dispose()))
+        );
     }
 
     /**
-     * Get the notes file path, initializing it if necessary
+     * Get every notes store: one per workspace folder plus the fallback store
+     * for files outside the workspace
      */
-    private getNotesFilePathInternal(): string {
-        if (!this.notesFilePath) {
-            this.notesFilePath = getNotesFilePath();
-            console.log(`[BUBULLE] Notes file path initialized: ${this.notesFilePath}`);
-        }
-        return this.notesFilePath;
+    private getStores(): NotesStore[] {
+        const folderStores = (vscode.workspace.workspaceFolders || []).map(folder =>
+            this.getStoreForFolder(folder)
+        );
+        return [...folderStores, this.getStoreForFolder(undefined)];
+    }
+
+    /**
+     * Get the store for a workspace folder, or the fallback store
+     */
+    private getStoreForFolder(folder: vscode.WorkspaceFolder | undefined): NotesStore {
+        return {
+            notesFilePath: getNotesFilePath(this.context, folder),
+            rootPath: folder?.uri.fsPath,
+        };
+    }
+
+    /**
+     * Check whether a store is the one keeping the reviews: the store of the
+     * first workspace folder, or the fallback store without a workspace
+     */
+    private isReviewsStore(store: NotesStore): boolean {
+        return store.notesFilePath === this.getStores()[0].notesFilePath;
+    }
+
+    /**
+     * Get the store a note on the given file belongs to
+     */
+    private getStoreForFile(filePath: string): NotesStore {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        return this.getStoreForFolder(folder);
     }
 
     /**
-     * Load notes from storage
+     * Get a copy of every note, reading the stores on first use only
      */
     public loadNotes(): NotesData {
+        return { notes: [...this.getCachedNotes()] };
+    }
+
+    /**
+     * Get the in-memory notes, loading them from every store if needed
+     */
+    private getCachedNotes(): Note[] {
+        if (!this.notes) {
+            this.setCachedNotes(this.getStores().flatMap(store => this.loadStore(store)));
+        }
+        return this.notes!;
+    }
+
+    /**
+     * Replace the in-memory notes and rebuild the per-file index of line notes
+     */
+    private setCachedNotes(notes: Note[]): void {
+        this.notes = notes;
+        this.notesByFile = new Map();
+        for (const note of notes.filter(isLineNote)) {
+            const key = path.resolve(note.filePath);
+            if (!this.notesByFile.has(key)) {
+                this.notesByFile.set(key, []);
+            }
+            this.notesByFile.get(key)!.push(note);
+        }
+    }
+
+    /**
+     * Watch the notes file of every store so external edits are picked up
+     */
+    private watchStores(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchedStores = this.getStores();
+        this.watchers = this.watchedStores.map(store => {
+            const pattern = new vscode.RelativePattern(
+                vscode.Uri.file(path.dirname(store.notesFilePath)),
+                path.basename(store.notesFilePath)
+            );
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            const onFileChange = () => this.reloadStore(store);
+            watcher.onDidChange(onFileChange);
+            watcher.onDidCreate(onFileChange);
+            watcher.onDidDelete(onFileChange);
+            return watcher;
+        });
+    }
+
+    /**
+     * Re-read a store after its file changed on disk, ignoring our own writes
+     */
+    private reloadStore(store: NotesStore): void {
+        if (!this.notes) {
+            return;
+        }
+
+        const content = safeReadFile(store.notesFilePath) ?? undefined;
+        if (content === this.knownContent.get(store.notesFilePath)) {
+            return;
+        }
+
+        console.log(`[BUBULLE] Notes file changed on disk: ${store.notesFilePath}`);
+        if (this.isReviewsStore(store)) {
+            this.reloadReviews();
+        }
+        const otherNotes = this.notes.filter(
+            note => this.getStoreForFile(note.filePath).notesFilePath !== store.notesFilePath
+        );
+        this.applyChange([...otherNotes, ...this.loadStore(store)]);
+    }
+
+    /**
+     * Re-read every store, e.g. after workspace folders changed
+     */
+    private reload(): void {
+        if (!this.notes) {
+            return;
+        }
+        this.reloadReviews();
+        this.applyChange(this.getStores().flatMap(store => this.loadStore(store)));
+    }
+
+    /**
+     * Forget the in-memory reviews so they are read again on next use
+     */
+    private reloadReviews(): void {
+        this.reviews = undefined;
+        this.reviewsChangeEmitter.fire();
+    }
+
+    /**
+     * Follow a change of the notes file or storage location settings. When
+     * the previous notes files hold notes, asks whether to move them to the
+     * new location, then watches and reads the new notes files.
+     */
+    public async reloadStorageLocation(): Promise<void> {
+        const moves = this.getStoreMoves();
+        if (moves.length === 0) {
+            return;
+        }
+
+        const noteCount = moves.reduce((count, move) => count + move.notes.length, 0);
+        if (noteCount > 0) {
+            const location = getRelativeDisplayPath(moves[0].to.notesFilePath);
+            const move = vscode.l10n.t('Move');
+            const choice = await vscode.window.showInformationMessage(
+                vscode.l10n.t(UI_STRINGS.PROMPTS.MOVE_NOTES, { count: noteCount, location }),
+                move,
+                vscode.l10n.t("Don't move")
+            );
+            if (choice === move) {
+                this.moveStores(moves);
+                vscode.window.showInformationMessage(
+                    vscode.l10n.t(UI_STRINGS.SUCCESS.NOTES_MOVED, { count: noteCount, location })
+                );
+            }
+        }
+
+        console.log('[BUBULLE] Notes storage location changed');
+        this.watchStores();
+        this.reload();
+    }
+
+    /**
+     * Get the stores whose notes file changed since they were last watched,
+     * with the notes left in their previous file
+     */
+    private getStoreMoves(): { from: NotesStore; to: NotesStore; notes: Note[] }[] {
+        return this.getStores().flatMap(store => {
+            const previous = this.watchedStores.find(watched => watched.rootPath === store.rootPath);
+            if (!previous || previous.notesFilePath === store.notesFilePath) {
+                return [];
+            }
+            return [{ from: previous, to: store, notes: this.loadStore(previous) }];
+        });
+    }
+
+    /**
+     * Write the notes of each previous notes file into the new one, next to
+     * the notes it may already hold, then delete the previous file
+     */
+    private moveStores(moves: { from: NotesStore; to: NotesStore; notes: Note[] }[]): void {
+        for (const { from, to, notes } of moves) {
+            if (notes.length === 0) {
+                continue;
+            }
+            try {
+                // Reviews follow the notes file of the first workspace folder
+                if (this.isReviewsStore(to)) {
+                    this.reviews = this.mergeReviews(this.readReviews(to), this.readReviews(from));
+                }
+                const existingNotes = this.loadStore(to);
+                const existingIds = new Set(existingNotes.map(note => note.id));
+                this.saveStore(to, [...existingNotes, ...notes.filter(note => !existingIds.has(note.id))]);
+                fs.rmSync(from.notesFilePath, { force: true });
+                this.knownContent.delete(from.notesFilePath);
+                console.log(`[BUBULLE] Moved ${notes.length} notes from ${from.notesFilePath} to ${to.notesFilePath}`);
+            } catch (error) {
+                console.error('[BUBULLE] Error moving notes:', error);
+                vscode.window.showErrorMessage(`${vscode.l10n.t(UI_STRINGS.ERRORS.MOVE_NOTES_ERROR)}: ${from.notesFilePath}`);
+            }
+        }
+    }
+
+    /**
+     * Update the in-memory notes and notify listeners of the files that changed
+     */
+    private applyChange(notes: Note[]): string[] {
+        const filePaths = this.getChangedFiles(this.notes ?? [], notes);
+        this.setCachedNotes(notes);
+        if (filePaths.length > 0) {
+            this.changeEmitter.fire({ filePaths });
+        }
+        return filePaths;
+    }
+
+    /**
+     * Get the files whose notes differ between two versions of the notes
+     */
+    private getChangedFiles(previousNotes: Note[], notes: Note[]): string[] {
+        const previousById = new Map(previousNotes.map(note => [note.id, note]));
+        const filePaths = new Set<string>();
+
+        for (const note of notes) {
+            const previous = previousById.get(note.id);
+            previousById.delete(note.id);
+            if (previous === note) {
+                continue;
+            }
+            if (!previous || JSON.stringify(previous) !== JSON.stringify(note)) {
+                filePaths.add(path.resolve(note.filePath));
+                if (previous) {
+                    filePaths.add(path.resolve(previous.filePath));
+                }
+            }
+        }
+
+        previousById.forEach(note => filePaths.add(path.resolve(note.filePath)));
+        return Array.from(filePaths);
+    }
+
+    /**
+     * Load the notes of a single store, resolving stored paths to absolute paths
+     */
+    private loadStore(store: NotesStore): Note[] {
         try {
-            const data = safeReadFile(this.getNotesFilePathInternal());
+            const data = safeReadFile(store.notesFilePath);
             
             if (!data) {
-                console.log('No notes file found, starting with empty notes');
-                return { notes: [] };
+                this.knownContent.delete(store.notesFilePath);
+                return [];
             }
 
+            this.knownContent.set(store.notesFilePath, data);
             const parsed = JSON.parse(data);
 
             if (!this.isValidNotesData(parsed)) {
                 console.warn('Invalid notes file structure, creating new one');
-                this.backupAndReset();
-                return { notes: [] };
+                backupCorruptedFile(store.notesFilePath);
+                return [];
             }
 
-            const sanitizedNotes = this.sanitizeNotes(parsed.notes);
-            console.log(`Loaded ${sanitizedNotes.length} notes from ${this.getNotesFilePathInternal()}`);
+            const sanitizedNotes = this.sanitizeNotes(parsed.notes, store.rootPath);
+            console.log(`Loaded ${sanitizedNotes.length} notes from ${store.notesFilePath}`);
+
+            // Persist upgraded notes right away so their generated ids stay stable
+            if (parsed.notes.some((note: any) => this.needsUpgrade(note))) {
+                this.saveStore(store, sanitizedNotes);
+            }
             
-            return {
-                notes: sanitizedNotes
-            };
+            return sanitizedNotes;
         } catch (error) {
             console.error('Error loading notes:', error);
             const message = error instanceof SyntaxError 
-                ? UI_STRINGS.ERRORS.CORRUPTED_FILE 
-                : UI_STRINGS.ERRORS.LOAD_ERROR;
+                ? vscode.l10n.t(UI_STRINGS.ERRORS.CORRUPTED_FILE) 
+                : vscode.l10n.t(UI_STRINGS.ERRORS.LOAD_ERROR);
             
             vscode.window.showWarningMessage(message);
-            this.backupAndReset();
-            return { notes: [] };
+            backupCorruptedFile(store.notesFilePath);
+            return [];
         }
     }
 
     /**
-     * Save notes to storage
+     * Save notes, splitting them across the store of each note's workspace folder.
+     * Only the stores holding changed notes are written, plus the given store
+     * when something else than its notes changed.
      */
-    public saveNotes(notesData: NotesData): void {
+    public saveNotes(notesData: NotesData, forceStore?: string): void {
         try {
-            console.log(`[BUBULLE] saveNotes called with ${notesData.notes.length} notes`);
-            const filePath = this.getNotesFilePathInternal();
-            console.log(`[BUBULLE] Target file path: ${filePath}`);
-            
             if (!this.isValidNotesData(notesData)) {
                 throw new Error('Invalid notes data structure');
             }
 
-            const jsonData = JSON.stringify(notesData, null, 2);
-            console.log(`[BUBULLE] JSON data length: ${jsonData.length} characters`);
-            console.log(`[BUBULLE] JSON content: ${jsonData}`);
-            console.log(`[BUBULLE] Saving ${notesData.notes.length} notes to ${filePath}`);
-            
-            // Check if directory exists
-            const dir = path.dirname(filePath);
-            if (!fs.existsSync(dir)) {
-                console.log(`[BUBULLE] Directory does not exist, creating: ${dir}`);
-                fs.mkdirSync(dir, { recursive: true });
+            const changedFiles = [...this.getChangedFiles(this.getCachedNotes(), notesData.notes), ...this.unsavedFiles];
+            if (changedFiles.length === 0 && !forceStore) {
+                return;
             }
-            
-            atomicWriteFile(filePath, jsonData);
-            console.log('[BUBULLE] Notes saved successfully');
-            
-            // Verify the file was written
-            if (fs.existsSync(filePath)) {
-                const fileSize = fs.statSync(filePath).size;
-                const content = fs.readFileSync(filePath, 'utf8');
-                console.log(`[BUBULLE] File verification: exists, size: ${fileSize} bytes`);
-                console.log(`[BUBULLE] File content after save: ${content}`);
-            } else {
-                console.error('[BUBULLE] File verification failed: file does not exist after write');
+            const changedStores = new Set(changedFiles.map(filePath => this.getStoreForFile(filePath).notesFilePath));
+
+            const notesByStore = new Map<string, { store: NotesStore; notes: Note[] }>();
+            for (const store of this.getStores()) {
+                notesByStore.set(store.notesFilePath, { store, notes: [] });
             }
+
+            for (const note of notesData.notes) {
+                const store = this.getStoreForFile(note.filePath);
+                if (!notesByStore.has(store.notesFilePath)) {
+                    notesByStore.set(store.notesFilePath, { store, notes: [] });
+                }
+                notesByStore.get(store.notesFilePath)!.notes.push(note);
+            }
+
+            for (const { store, notes } of notesByStore.values()) {
+                if (changedStores.has(store.notesFilePath) || forceStore === store.notesFilePath) {
+                    this.saveStore(store, notes);
+                }
+            }
+            this.unsavedFiles.clear();
+
+            this.applyChange(notesData.notes);
         } catch (error) {
-            const errorMessage = `${UI_STRINGS.ERRORS.SAVE_ERROR}: ${error}`;
+            const errorMessage = `${vscode.l10n.t(UI_STRINGS.ERRORS.SAVE_ERROR)}: ${error}`;
             console.error('[BUBULLE] Error saving notes:', error);
             vscode.window.showErrorMessage(errorMessage);
         }
     }
 
     /**
-     * Get notes for a specific file
+     * Write the notes of a single store, with paths relative to its root
+     */
+    private saveStore(store: NotesStore, notes: Note[]): void {
+        const reviews = this.isReviewsStore(store) ? this.getCachedReviews() : [];
+
+        // Don't create an empty notes file in a folder that never had notes
+        if (notes.length === 0 && reviews.length === 0 && !fs.existsSync(store.notesFilePath)) {
+            return;
+        }
+
+        const storedNotes = notes.map(note => ({
+            ...note,
+            filePath: toStoredPath(note.filePath, store.rootPath),
+        }));
+
+        const data: NotesData = reviews.length > 0 ? { notes: storedNotes, reviews } : { notes: storedNotes };
+        const jsonData = JSON.stringify(data, null, 2);
+        console.log(`[BUBULLE] Saving ${notes.length} notes to ${store.notesFilePath}`);
+
+        // Remember what we wrote so the file watcher doesn't reload our own save
+        this.knownContent.set(store.notesFilePath, jsonData);
+        atomicWriteFile(store.notesFilePath, jsonData);
+    }
+
+    /**
+     * Get the notes on the lines of a file, without the notes about the whole file
      */
     public getNotesForFile(filePath: string): Note[] {
-        const notesData = this.loadNotes();
-        const normalizedPath = path.resolve(filePath);
-        return notesData.notes.filter(note => 
-            path.resolve(note.filePath) === normalizedPath
-        );
+        this.getCachedNotes();
+        return [...(this.notesByFile.get(path.resolve(filePath)) || [])];
+    }
+
+    /**
+     * Get a note by its id
+     */
+    public getNoteById(noteId: string): Note | undefined {
+        return this.getCachedNotes().find(note => note.id === noteId);
     }
 
     /**
-     * Add or update a note
+     * Get the note on a given file and line
      */
-    public addOrUpdateNote(filePath: string, line: number, text: string): boolean {
+    public getNoteAt(filePath: string, line: number): Note | undefined {
+        return this.getNotesForFile(filePath).find(note => note.line === line);
+    }
+
+    /**
+     * Create a new note whose thread starts with the given text
+     */
+    public createNote(
+        filePath: string,
+        line: number,
+        text: string,
+        anchor?: NoteAnchor,
+        range?: NoteRange,
+        suggestion?: NoteSuggestion,
+        labels?: NoteLabels,
+        subject?: NoteSubject
+    ): Note | undefined {
         try {
-            console.log(`[BUBULLE] addOrUpdateNote called with filePath: ${filePath}, line: ${line}, text: "${text.substring(0, 50)}..."`);
-            console.log(`[BUBULLE] Notes file path: ${this.notesFilePath}`);
+            console.log(`[BUBULLE] createNote called with filePath: ${filePath}, line: ${line}, text: "${text.substring(0, 50)}..."`);
             
             const notesData = this.loadNotes();
-            console.log(`[BUBULLE] Loaded ${notesData.notes.length} existing notes`);
-            
-            const normalizedFilePath = path.resolve(filePath);
-            console.log(`[BUBULLE] Normalized file path: ${normalizedFilePath}`);
-            
-            const existingNoteIndex = notesData.notes.findIndex(
-                note => path.resolve(note.filePath) === normalizedFilePath && note.line === line
-            );
-            console.log(`[BUBULLE] Existing note index: ${existingNoteIndex}`);
-
+            const comment = createComment(text);
             const newNote: Note = {
-                filePath: normalizedFilePath,
+                id: generateId(),
+                filePath: path.resolve(filePath),
                 line,
-                text: text.trim(),
-                timestamp: new Date().toISOString(),
+                comments: [comment],
+                status: 'open',
+                severity: labels?.severity ?? DEFAULT_CONFIG.SEVERITY,
+                timestamp: comment.createdAt,
             };
-            console.log(`[BUBULLE] Created new note object:`, newNote);
+            if (labels?.tags.length) {
+                newNote.tags = labels.tags;
+            }
+            if (anchor) {
+                newNote.anchor = anchor;
+            }
+            if (range) {
+                newNote.range = range;
+            }
+            if (suggestion) {
+                newNote.suggestion = suggestion;
+            }
+            if (subject) {
+                newNote.subject = subject;
+            }
+            if (this.activeReviewId) {
+                newNote.reviewId = this.activeReviewId;
+                newNote.draft = true;
+            }
+            const branch = getExtensionConfig().branchNotes ? getCurrentBranch(newNote.filePath) : undefined;
+            if (branch) {
+                newNote.branch = branch;
+            }
 
-            if (existingNoteIndex >= 0) {
-                notesData.notes[existingNoteIndex] = newNote;
-                console.log(`[BUBULLE] Note updated for ${normalizedFilePath} at line ${line}`);
-            } else {
-                notesData.notes.push(newNote);
-                console.log(`[BUBULLE] Note added for ${normalizedFilePath} at line ${line}`);
+            notesData.notes.push(newNote);
+            this.saveNotes(notesData);
+            console.log(`[BUBULLE] Note added for ${newNote.filePath} at line ${line}`);
+
+            // Folders have no content to record, and unsaved lines are in no git blob
+            if (subject !== 'folder' && !this.hasUnsavedChanges(newNote.filePath)) {
+                this.recordRevision(newNote.id, newNote.filePath, line);
+            }
+            return newNote;
+        } catch (error) {
+            console.error('[BUBULLE] Error creating note:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Record the git revision a new note was written against, once git answered
+     */
+    private async recordRevision(noteId: string, filePath: string, line: number): Promise<void> {
+        const revision = await getGitRevision(filePath);
+        if (revision) {
+            this.updateNote(noteId, note => ({ ...note, revision: { ...revision, line } }));
+        }
+    }
+
+    /**
+     * Check whether a file is open with changes that are not saved yet
+     */
+    private hasUnsavedChanges(filePath: string): boolean {
+        return vscode.workspace.textDocuments.some(
+            document => document.isDirty && document.uri.scheme === 'file' && path.resolve(document.uri.fsPath) === filePath
+        );
+    }
+
+    /**
+     * Add several notes at once. A note on a line that already has one is
+     * merged into its thread, without the comments the thread already has.
+     * Returns the number of notes that were added or brought new comments.
+     */
+    public addNotes(notes: Note[]): number {
+        try {
+            const notesData = this.loadNotes();
+            let added = 0;
+            for (const note of notes) {
+                const normalizedPath = path.resolve(note.filePath);
+                const index = notesData.notes.findIndex(existing =>
+                    isLineNote(existing) && path.resolve(existing.filePath) === normalizedPath && existing.line === note.line
+                );
+                if (index < 0) {
+                    notesData.notes.push({ ...note, filePath: normalizedPath });
+                    added++;
+                    continue;
+                }
+
+                const existing = notesData.notes[index];
+                const comments = this.getNewComments(existing.comments, note.comments);
+                if (comments.length > 0) {
+                    notesData.notes[index] = { ...existing, comments: [...existing.comments, ...comments] };
+                    added++;
+                }
             }
 
-            console.log(`[BUBULLE] About to save ${notesData.notes.length} notes`);
             this.saveNotes(notesData);
-            console.log(`[BUBULLE] Notes saved successfully`);
+            return added;
+        } catch (error) {
+            console.error('[BUBULLE] Error adding notes:', error);
+            return 0;
+        }
+    }
+
+    /**
+     * Get the comments a thread doesn't have yet, matched by id or by
+     * author, date and body since imported comments get new ids
+     */
+    private getNewComments(existing: NoteComment[], comments: NoteComment[]): NoteComment[] {
+        const ids = new Set(existing.map(comment => comment.id));
+        const keys = new Set(existing.map(comment => JSON.stringify([comment.author, comment.createdAt, comment.body])));
+        return comments.filter(comment => {
+            const key = JSON.stringify([comment.author, comment.createdAt, comment.body]);
+            if (ids.has(comment.id) || keys.has(key)) {
+                return false;
+            }
+            // Guard against the same comment twice in one import
+            ids.add(comment.id);
+            keys.add(key);
             return true;
+        });
+    }
+
+    /**
+     * Add a reply to a note's thread
+     */
+    public addComment(noteId: string, text: string): Note | undefined {
+        return this.updateNote(noteId, note => ({
+            ...note,
+            comments: [...note.comments, createComment(text)],
+        }));
+    }
+
+    /**
+     * Edit the body of a comment
+     */
+    public updateComment(noteId: string, commentId: string, text: string): Note | undefined {
+        return this.updateNote(noteId, note => ({
+            ...note,
+            comments: note.comments.map(comment =>
+                comment.id === commentId
+                    ? { ...comment, body: text.trim(), editedAt: new Date().toISOString() }
+                    : comment
+            ),
+        }));
+    }
+
+    /**
+     * Change the review status of a note
+     */
+    public setNoteStatus(noteId: string, status: NoteStatus): Note | undefined {
+        return this.updateNote(noteId, note => ({ ...note, status }));
+    }
+
+    /**
+     * Make a note belong to a git branch, or to every branch
+     */
+    public setNoteBranch(noteId: string, branch: string | undefined): Note | undefined {
+        return this.updateNote(noteId, note => ({ ...note, branch }));
+    }
+
+    /**
+     * Change the severity and the tags of a note
+     */
+    public setNoteLabels(noteId: string, labels: NoteLabels): Note | undefined {
+        return this.updateNote(noteId, note => ({
+            ...note,
+            severity: labels.severity,
+            tags: labels.tags.length > 0 ? labels.tags : undefined,
+        }));
+    }
+
+    /**
+     * Change the replacement code proposed by a note
+     */
+    public updateSuggestion(noteId: string, replacement: string): Note | undefined {
+        return this.updateNote(noteId, note => note.suggestion
+            ? { ...note, suggestion: { ...note.suggestion, replacement } }
+            : note
+        );
+    }
+
+    /**
+     * Record that the suggestion of a note was applied, which resolves the note
+     */
+    public markSuggestionApplied(noteId: string): Note | undefined {
+        return this.updateNote(noteId, note => note.suggestion
+            ? { ...note, status: 'resolved', suggestion: { ...note.suggestion, appliedAt: new Date().toISOString() } }
+            : note
+        );
+    }
+
+    /**
+     * Delete a comment. Deleting the last comment of a thread deletes the note.
+     * Returns the updated note, or undefined when the note is gone.
+     */
+    public deleteComment(noteId: string, commentId: string): Note | undefined {
+        const note = this.getNoteById(noteId);
+        if (!note) {
+            return undefined;
+        }
+
+        const comments = note.comments.filter(comment => comment.id !== commentId);
+        if (comments.length === 0) {
+            this.deleteNote(noteId);
+            return undefined;
+        }
+
+        return this.updateNote(noteId, current => ({ ...current, comments }));
+    }
+
+    /**
+     * Apply a change to a single note and save it
+     */
+    private updateNote(noteId: string, update: (note: Note) => Note): Note | undefined {
+        try {
+            const notesData = this.loadNotes();
+            const index = notesData.notes.findIndex(note => note.id === noteId);
+            if (index < 0) {
+                return undefined;
+            }
+
+            const updatedNote = update(notesData.notes[index]);
+            notesData.notes[index] = updatedNote;
+            this.saveNotes(notesData);
+            return updatedNote;
         } catch (error) {
-            console.error('[BUBULLE] Error adding/updating note:', error);
-            return false;
+            console.error('[BUBULLE] Error updating note:', error);
+            return undefined;
         }
     }
 
@@ -170,11 +712,7 @@ export class NotesStorage {
      */
     public noteExists(filePath: string, line: number): boolean {
         try {
-            const notesData = this.loadNotes();
-            const normalizedFilePath = path.resolve(filePath);
-            return notesData.notes.some(
-                note => path.resolve(note.filePath) === normalizedFilePath && note.line === line
-            );
+            return this.getNoteAt(filePath, line) !== undefined;
         } catch (error) {
             console.error('Error checking if note exists:', error);
             return false;
@@ -182,17 +720,32 @@ export class NotesStorage {
     }
 
     /**
-     * Delete a note
+     * Delete several notes at once. Returns the number of notes deleted.
      */
-    public deleteNote(filePath: string, line: number): boolean {
+    public deleteNotes(noteIds: string[]): number {
         try {
+            const ids = new Set(noteIds);
             const notesData = this.loadNotes();
             const originalLength = notesData.notes.length;
-            const normalizedFilePath = path.resolve(filePath);
 
-            notesData.notes = notesData.notes.filter(
-                note => !(path.resolve(note.filePath) === normalizedFilePath && note.line === line)
-            );
+            notesData.notes = notesData.notes.filter(note => !ids.has(note.id));
+            this.saveNotes(notesData);
+            return originalLength - notesData.notes.length;
+        } catch (error) {
+            console.error('Error deleting notes:', error);
+            return 0;
+        }
+    }
+
+    /**
+     * Delete a note and its whole thread
+     */
+    public deleteNote(noteId: string): boolean {
+        try {
+            const notesData = this.loadNotes();
+            const originalLength = notesData.notes.length;
+
+            notesData.notes = notesData.notes.filter(note => note.id !== noteId);
 
             if (notesData.notes.length === originalLength) {
                 return false; // Note not found
@@ -206,18 +759,240 @@ export class NotesStorage {
         }
     }
 
+    /**
+     * Get the notes on a file, or on every file inside a folder
+     */
+    public getNotesUnder(targetPath: string): Note[] {
+        return this.getCachedNotes().filter(note => isSameOrInside(note.filePath, targetPath));
+    }
+
+    /**
+     * Get the notes whose file no longer exists
+     */
+    public getOrphanedNotes(): Note[] {
+        return this.getAllNotesSorted().filter(note => !fs.existsSync(note.filePath));
+    }
+
+    /**
+     * Move the notes of a renamed file, or of every file in a renamed folder.
+     * Returns the number of notes moved.
+     */
+    public moveNotes(oldPath: string, newPath: string): number {
+        try {
+            const resolvedOldPath = path.resolve(oldPath);
+            const resolvedNewPath = path.resolve(newPath);
+            const notesData = this.loadNotes();
+            let moved = 0;
+
+            notesData.notes = notesData.notes.map(note => {
+                if (!isSameOrInside(note.filePath, resolvedOldPath)) {
+                    return note;
+                }
+                moved++;
+                const relativePath = path.relative(resolvedOldPath, path.resolve(note.filePath));
+                return { ...note, filePath: path.join(resolvedNewPath, relativePath) };
+            });
+
+            if (moved > 0) {
+                this.saveNotes(notesData);
+            }
+            return moved;
+        } catch (error) {
+            console.error('[BUBULLE] Error moving notes:', error);
+            return 0;
+        }
+    }
+
+    /**
+     * Attach a note to another file. Its anchor re-attaches it to the right
+     * line when the file is opened.
+     */
+    public reattachNote(noteId: string, filePath: string): Note | undefined {
+        return this.updateNote(noteId, note => ({ ...note, filePath: path.resolve(filePath) }));
+    }
+
+    /**
+     * Move notes out of the notes file into the archive file of their store.
+     * Returns the number of notes archived.
+     */
+    public archiveNotes(noteIds: string[]): number {
+        try {
+            const ids = new Set(noteIds);
+            const notesData = this.loadNotes();
+            const archivedNotes = notesData.notes.filter(note => ids.has(note.id));
+            if (archivedNotes.length === 0) {
+                return 0;
+            }
+
+            const notesByArchive = new Map<string, { store: NotesStore; notes: Note[] }>();
+            for (const note of archivedNotes) {
+                const store = this.getStoreForFile(note.filePath);
+                if (!notesByArchive.has(store.notesFilePath)) {
+                    notesByArchive.set(store.notesFilePath, { store, notes: [] });
+                }
+                notesByArchive.get(store.notesFilePath)!.notes.push(note);
+            }
+
+            for (const { store, notes } of notesByArchive.values()) {
+                const archivePath = getArchiveFilePath(store.notesFilePath);
+                const existing = safeReadFile(archivePath);
+                const parsed = existing ? JSON.parse(existing) : { notes: [] };
+                const storedNotes = notes.map(note => ({
+                    ...note,
+                    filePath: toStoredPath(note.filePath, store.rootPath),
+                    archivedAt: new Date().toISOString(),
+                }));
+                const archive = { notes: [...(Array.isArray(parsed.notes) ? parsed.notes : []), ...storedNotes] };
+                atomicWriteFile(archivePath, JSON.stringify(archive, null, 2));
+            }
+
+            notesData.notes = notesData.notes.filter(note => !ids.has(note.id));
+            this.saveNotes(notesData);
+            return archivedNotes.length;
+        } catch (error) {
+            console.error('[BUBULLE] Error archiving notes:', error);
+            return 0;
+        }
+    }
+
+    /**
+     * Get the archive file notes on a file are archived to
+     */
+    public getArchiveFilePath(filePath: string): string {
+        return getArchiveFilePath(this.getStoreForFile(filePath).notesFilePath);
+    }
+
+    /**
+     * Replace the notes on the lines of a file, e.g. after their lines moved
+     */
+    public replaceNotesForFile(filePath: string, notes: Note[]): boolean {
+        try {
+            this.saveNotes({ notes: this.withNotesForFile(filePath, notes) });
+            return true;
+        } catch (error) {
+            console.error('Error replacing notes:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Replace the notes of a file in memory only, while its document is edited.
+     * They are written by saveNotesForFile or any other save.
+     */
+    public moveNotesForFile(filePath: string, notes: Note[]): void {
+        this.applyChange(this.withNotesForFile(filePath, notes));
+        this.unsavedFiles.add(path.resolve(filePath));
+    }
+
+    /**
+     * Write the notes of a file that were moved in memory
+     */
+    public saveNotesForFile(filePath: string): void {
+        if (this.unsavedFiles.has(path.resolve(filePath))) {
+            this.saveNotes(this.loadNotes());
+        }
+    }
+
+    /**
+     * Get every note with the notes on the lines of a file replaced, keeping
+     * the notes about the whole file
+     */
+    private withNotesForFile(filePath: string, notes: Note[]): Note[] {
+        const normalizedFilePath = path.resolve(filePath);
+        return [
+            ...this.getCachedNotes().filter(
+                note => !isLineNote(note) || path.resolve(note.filePath) !== normalizedFilePath
+            ),
+            ...notes,
+        ];
+    }
+
     /**
      * Get all notes sorted by file and line
      */
     public getAllNotesSorted(): Note[] {
         const notesData = this.loadNotes();
-        return notesData.notes.sort((a, b) => {
-            const fileCompare = a.filePath.localeCompare(b.filePath);
-            if (fileCompare !== 0) {
-                return fileCompare;
-            }
-            return a.line - b.line;
-        });
+        return notesData.notes.sort(compareNotes);
+    }
+
+    /**
+     * Set the review in progress, whose id and draft flag are given to new notes
+     */
+    public setActiveReview(reviewId: string | undefined): void {
+        this.activeReviewId = reviewId;
+    }
+
+    /**
+     * Get the notes written in a review, sorted by file and line
+     */
+    public getReviewNotes(reviewId: string): Note[] {
+        return this.getAllNotesSorted().filter(note => note.reviewId === reviewId);
+    }
+
+    /**
+     * Get the finished reviews, most recent first
+     */
+    public getReviews(): NoteReview[] {
+        return [...this.getCachedReviews()].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    }
+
+    /**
+     * Record a finished review and publish its draft notes.
+     * Returns the number of notes published, or undefined on error.
+     */
+    public finishReview(review: NoteReview): number | undefined {
+        try {
+            const notesData = this.loadNotes();
+            let published = 0;
+            notesData.notes = notesData.notes.map(note => {
+                if (note.reviewId !== review.id || !note.draft) {
+                    return note;
+                }
+                published++;
+                const { draft, ...publishedNote } = note;
+                return publishedNote;
+            });
+
+            this.reviews = [...this.getCachedReviews(), review];
+            this.saveNotes(notesData, this.getStores()[0].notesFilePath);
+            this.reviewsChangeEmitter.fire();
+            return published;
+        } catch (error) {
+            console.error('[BUBULLE] Error finishing review:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the in-memory reviews, reading them from their store if needed
+     */
+    private getCachedReviews(): NoteReview[] {
+        if (!this.reviews) {
+            this.reviews = this.readReviews(this.getStores()[0]);
+        }
+        return this.reviews;
+    }
+
+    /**
+     * Read the valid reviews of a notes file
+     */
+    private readReviews(store: NotesStore): NoteReview[] {
+        try {
+            const data = safeReadFile(store.notesFilePath);
+            const parsed = data ? JSON.parse(data) : undefined;
+            return Array.isArray(parsed?.reviews) ? parsed.reviews.filter((review: any) => this.isValidReview(review)) : [];
+        } catch (error) {
+            console.error('[BUBULLE] Error loading reviews:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Merge two lists of reviews, keeping the first of each id
+     */
+    private mergeReviews(reviews: NoteReview[], otherReviews: NoteReview[]): NoteReview[] {
+        const ids = new Set(reviews.map(review => review.id));
+        return [...reviews, ...otherReviews.filter(review => !ids.has(review.id))];
     }
 
     /**
@@ -230,26 +1005,61 @@ export class NotesStorage {
     /**
      * Sanitize and validate individual notes
      */
-    private sanitizeNotes(notes: any[]): Note[] {
+    private sanitizeNotes(notes: any[], rootPath?: string): Note[] {
         return notes
             .filter(note => this.isValidNote(note))
-            .map(note => ({
+            .map(note => this.upgradeNote({
                 ...note,
-                filePath: path.resolve(note.filePath),
-                text: note.text.trim(),
+                filePath: fromStoredPath(note.filePath, rootPath),
+                status: NOTE_STATUSES.includes(note.status) ? note.status : 'open',
+                severity: isNoteSeverity(note.severity) ? note.severity : DEFAULT_CONFIG.SEVERITY,
+                tags: this.sanitizeTags(note.tags),
+                range: this.isValidRange(note.range, note.line) ? note.range : undefined,
+                suggestion: this.isValidSuggestion(note.suggestion) ? note.suggestion : undefined,
+                revision: this.isValidRevision(note.revision) ? note.revision : undefined,
+                branch: typeof note.branch === 'string' && note.branch ? note.branch : undefined,
+                subject: note.subject === 'file' || note.subject === 'folder' ? note.subject : undefined,
+                reviewId: typeof note.reviewId === 'string' ? note.reviewId : undefined,
+                draft: note.draft === true && typeof note.reviewId === 'string' ? true : undefined,
             }));
     }
 
+    /**
+     * Convert notes saved before threads existed, whose content was a single text
+     */
+    private upgradeNote(note: any): Note {
+        if (!this.needsUpgrade(note)) {
+            return note;
+        }
+
+        const { text, ...rest } = note;
+        const comments = Array.isArray(note.comments)
+            ? note.comments
+            : [{ ...createComment(text), createdAt: note.timestamp }];
+
+        return { ...rest, id: note.id || generateId(), comments };
+    }
+
+    /**
+     * Check whether a stored note still uses the single-text format
+     */
+    private needsUpgrade(note: any): boolean {
+        return typeof note.id !== 'string' || !Array.isArray(note.comments);
+    }
+
     /**
      * Validate individual note structure
      */
     private isValidNote(note: any): boolean {
+        const hasContent = Array.isArray(note?.comments)
+            ? note.comments.length > 0 && note.comments.every((comment: any) => this.isValidComment(comment))
+            : typeof note?.text === 'string' && note.text.trim().length > 0;
+
         const isValid = note &&
             typeof note.filePath === 'string' &&
             typeof note.line === 'number' &&
             note.line >= 0 &&
-            typeof note.text === 'string' &&
-            note.text.trim().length > 0 &&
+            hasContent &&
             typeof note.timestamp === 'string';
 
         if (!isValid) {
@@ -260,54 +1070,138 @@ export class NotesStorage {
     }
 
     /**
-     * Get the notes file path (for debugging)
+     * Validate the range of a note, which must end on the note's line
      */
-    public getNotesFilePath(): string {
-        return this.getNotesFilePathInternal();
+    private isValidRange(range: any, line: number): range is NoteRange {
+        return range &&
+            typeof range.startLine === 'number' &&
+            typeof range.startCharacter === 'number' &&
+            typeof range.endLine === 'number' &&
+            typeof range.endCharacter === 'number' &&
+            range.startLine >= 0 &&
+            range.startLine <= range.endLine &&
+            range.endLine === line;
     }
 
     /**
-     * Initialize the notes file with empty data if it doesn't exist
+     * Validate the code suggestion of a note
      */
-    public initializeNotesFile(): void {
+    private isValidSuggestion(suggestion: any): suggestion is NoteSuggestion {
+        return suggestion &&
+            typeof suggestion.original === 'string' &&
+            typeof suggestion.replacement === 'string';
+    }
+
+    /**
+     * Validate the git revision a note was written against
+     */
+    private isValidRevision(revision: any): revision is NoteRevision {
+        return revision &&
+            typeof revision.commit === 'string' &&
+            typeof revision.blob === 'string' &&
+            typeof revision.line === 'number' &&
+            revision.line >= 0;
+    }
+
+    /**
+     * Keep the valid tags of a note, or none when it has no tag left
+     */
+    private sanitizeTags(tags: any): string[] | undefined {
+        if (!Array.isArray(tags)) {
+            return undefined;
+        }
+        const valid = tags.filter(tag => typeof tag === 'string').map(normalizeTag).filter(Boolean);
+        return valid.length > 0 ? [...new Set(valid)] : undefined;
+    }
+
+    /**
+     * Validate a finished review
+     */
+    private isValidReview(review: any): review is NoteReview {
+        return review &&
+            typeof review.id === 'string' &&
+            typeof review.author === 'string' &&
+            typeof review.startedAt === 'string' &&
+            typeof review.submittedAt === 'string' &&
+            REVIEW_VERDICTS.includes(review.verdict) &&
+            typeof review.summary === 'string';
+    }
+
+    /**
+     * Validate a comment of a thread
+     */
+    private isValidComment(comment: any): boolean {
+        return comment &&
+            typeof comment.id === 'string' &&
+            typeof comment.author === 'string' &&
+            typeof comment.body === 'string' &&
+            typeof comment.createdAt === 'string';
+    }
+
+    /**
+     * Get the notes file path for a file, or for the first workspace folder (for debugging)
+     */
+    public getNotesFilePath(filePath?: string): string {
+        const store = filePath ? this.getStoreForFile(filePath) : this.getStores()[0];
+        return store.notesFilePath;
+    }
+
+    /**
+     * Move notes from the single legacy notes file into the store of their
+     * workspace folder. Notes belonging to other workspaces stay in the legacy
+     * file until one of those workspaces is opened.
+     */
+    public migrateLegacyNotes(): void {
+        const legacyFilePath = getLegacyNotesFilePath();
+        if (!legacyFilePath) {
+            return;
+        }
+
         try {
-            const filePath = this.getNotesFilePathInternal();
-            console.log(`[BUBULLE] Initializing notes file at: ${filePath}`);
-            
-            // Check if the file already exists
-            if (fs.existsSync(filePath)) {
-                console.log(`[BUBULLE] Notes file already exists: ${filePath}`);
-                // Verify the file content
-                const content = fs.readFileSync(filePath, 'utf8');
-                console.log(`[BUBULLE] Existing file content: ${content}`);
+            const data = safeReadFile(legacyFilePath);
+            const parsed = data ? JSON.parse(data) : { notes: [] };
+            if (!this.isValidNotesData(parsed)) {
+                console.warn(`[BUBULLE] Ignoring invalid legacy notes file: ${legacyFilePath}`);
                 return;
             }
-            
-            // Create the file with empty notes data
-            const emptyNotesData: NotesData = { notes: [] };
-            const jsonData = JSON.stringify(emptyNotesData, null, 2);
-            
-            console.log(`[BUBULLE] Creating new notes file with content: ${jsonData}`);
-            fs.writeFileSync(filePath, jsonData, 'utf8');
-            console.log(`[BUBULLE] Successfully initialized empty notes file: ${filePath}`);
-            
-            // Verify the file was created
-            if (fs.existsSync(filePath)) {
-                const fileSize = fs.statSync(filePath).size;
-                const content = fs.readFileSync(filePath, 'utf8');
-                console.log(`[BUBULLE] File verification: exists, size: ${fileSize} bytes, content: ${content}`);
-            } else {
-                console.error('[BUBULLE] File verification failed: file was not created');
+
+            const legacyNotes = this.sanitizeNotes(parsed.notes);
+            const isInWorkspace = (note: Note) =>
+                vscode.workspace.getWorkspaceFolder(vscode.Uri.file(note.filePath)) !== undefined;
+            const notesToMove = legacyNotes.filter(isInWorkspace);
+            const remainingNotes = legacyNotes.filter(note => !isInWorkspace(note));
+
+            if (notesToMove.length > 0) {
+                const notesData = this.loadNotes();
+                for (const note of notesToMove) {
+                    const alreadyStored = notesData.notes.some(
+                        existing => existing.filePath === note.filePath && existing.line === note.line
+                    );
+                    if (!alreadyStored) {
+                        notesData.notes.push(note);
+                    }
+                }
+                this.saveNotes(notesData);
+            }
+
+            if (remainingNotes.length === 0) {
+                fs.renameSync(legacyFilePath, `${legacyFilePath}.migrated`);
+            } else if (notesToMove.length > 0) {
+                atomicWriteFile(legacyFilePath, JSON.stringify({ notes: remainingNotes }, null, 2));
+            }
+
+            if (notesToMove.length > 0) {
+                console.log(`[BUBULLE] Migrated ${notesToMove.length} legacy notes from ${legacyFilePath}`);
+                vscode.window.showInformationMessage(
+                    vscode.l10n.t(UI_STRINGS.INFO.NOTES_MIGRATED, {
+                        count: notesToMove.length,
+                        location: getRelativeDisplayPath(this.getNotesFilePath()),
+                    })
+                );
             }
         } catch (error) {
-            console.error('[BUBULLE] Error initializing notes file:', error);
+            console.error('[BUBULLE] Error migrating legacy notes:', error);
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.ERRORS.MIGRATION_ERROR));
         }
     }
-
-    /**
-     * Backup corrupted file and reset
-     */
-    private backupAndReset(): void {
-        backupCorruptedFile(this.getNotesFilePathInternal());
-    }
 }
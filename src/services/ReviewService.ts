@@ -0,0 +1,152 @@
+/**
+ * Review sessions: notes written during a review stay drafts until the review
+ * is finished with a verdict and a summary, like a pending GitHub review
+ */
+
+import * as vscode from 'vscode';
+import { NoteReview, ReviewSession, ReviewVerdict } from '../types';
+import { COMMANDS, REVIEW_VERDICT_ICONS, REVIEW_VERDICT_LABELS, STATE_KEYS, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getExtensionConfig } from '../utils/fileUtils';
+import { generateId } from '../utils/noteUtils';
+import { getVerdictLabel } from '../utils/localeUtils';
+
+export class ReviewService {
+    private readonly statusBarItem: vscode.StatusBarItem;
+
+    constructor(private context: vscode.ExtensionContext, private notesStorage: NotesStorage) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.statusBarItem.command = COMMANDS.FINISH_REVIEW;
+        this.statusBarItem.tooltip = vscode.l10n.t('Finish the review');
+
+        context.subscriptions.push(
+            this.statusBarItem,
+            this.notesStorage.onDidChangeNotes(() => this.updateStatusBar())
+        );
+
+        // A review in progress survives window reloads
+        this.applySession(this.getSession());
+    }
+
+    /**
+     * Get the review in progress in this workspace
+     */
+    public getSession(): ReviewSession | undefined {
+        const session = this.context.workspaceState.get<ReviewSession>(STATE_KEYS.ACTIVE_REVIEW);
+        return typeof session?.id === 'string' ? session : undefined;
+    }
+
+    /**
+     * Start a review: notes written from now on are drafts
+     */
+    public async startReview(): Promise<void> {
+        if (this.getSession()) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.REVIEW_IN_PROGRESS));
+            return;
+        }
+
+        await this.setSession({
+            id: generateId(),
+            author: getExtensionConfig().author,
+            startedAt: new Date().toISOString(),
+        });
+        vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.REVIEW_STARTED));
+    }
+
+    /**
+     * Ask for the verdict and the summary of the review in progress, then
+     * record the review and publish its drafts
+     */
+    public async finishReview(): Promise<void> {
+        const session = this.getSession();
+        if (!session) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_REVIEW_IN_PROGRESS));
+            return;
+        }
+
+        const verdict = await this.pickVerdict(this.getDraftCount(session));
+        if (!verdict) {
+            return;
+        }
+
+        const summary = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t(UI_STRINGS.PROMPTS.REVIEW_SUMMARY),
+            ignoreFocusOut: true,
+        });
+        if (summary === undefined) {
+            return;
+        }
+
+        const review: NoteReview = {
+            ...session,
+            submittedAt: new Date().toISOString(),
+            verdict,
+            summary: summary.trim(),
+        };
+        const published = this.notesStorage.finishReview(review);
+        if (published === undefined) {
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.FINISH_REVIEW_ERROR));
+            return;
+        }
+
+        await this.setSession(undefined);
+        vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.REVIEW_FINISHED, { count: published }));
+    }
+
+    /**
+     * Ask for the verdict of a review
+     */
+    private async pickVerdict(draftCount: number): Promise<ReviewVerdict | undefined> {
+        const verdicts = Object.keys(REVIEW_VERDICT_LABELS) as ReviewVerdict[];
+        const choice = await vscode.window.showQuickPick(
+            verdicts.map(verdict => ({
+                label: `$(${REVIEW_VERDICT_ICONS[verdict]}) ${getVerdictLabel(verdict)}`,
+                verdict,
+            })),
+            {
+                placeHolder: vscode.l10n.t(UI_STRINGS.PROMPTS.PICK_VERDICT, { count: draftCount }),
+                ignoreFocusOut: true,
+            }
+        );
+        return choice?.verdict;
+    }
+
+    /**
+     * Remember the review in progress, or forget it once finished
+     */
+    private async setSession(session: ReviewSession | undefined): Promise<void> {
+        await this.context.workspaceState.update(STATE_KEYS.ACTIVE_REVIEW, session);
+        this.applySession(session);
+    }
+
+    /**
+     * Make new notes drafts of the review in progress, and show it in the status bar
+     */
+    private applySession(session: ReviewSession | undefined): void {
+        this.notesStorage.setActiveReview(session?.id);
+        vscode.commands.executeCommand('setContext', STATE_KEYS.REVIEW_IN_PROGRESS_CONTEXT, session !== undefined);
+        this.updateStatusBar();
+    }
+
+    /**
+     * Show the number of drafts of the review in progress
+     */
+    private updateStatusBar(): void {
+        const session = this.getSession();
+        if (!session) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const count = this.getDraftCount(session);
+        this.statusBarItem.text = `$(eye) ${vscode.l10n.t(UI_STRINGS.INFO.REVIEW_STATUS, { count })}`;
+        this.statusBarItem.show();
+    }
+
+    /**
+     * Count the draft notes of a review
+     */
+    private getDraftCount(session: ReviewSession): number {
+        return this.notesStorage.getReviewNotes(session.id).filter(note => note.draft).length;
+    }
+}
@@ -0,0 +1,175 @@
+/**
+ * Suggestion service applying and previewing the code proposed by notes
+ */
+
+import * as vscode from 'vscode';
+import { Note, NoteRange } from '../types';
+import { COMMANDS, UI_STRINGS } from '../constants';
+import { NotesStorage } from './NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { canEditNote, getNoteLocationLabel } from '../utils/noteUtils';
+
+const SUGGESTION_SCHEME = 'bubulle-suggestion';
+
+export class SuggestionService implements vscode.TextDocumentContentProvider {
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage
+    ) {
+        this.context.subscriptions.push(
+            vscode.workspace.registerTextDocumentContentProvider(SUGGESTION_SCHEME, this)
+        );
+        this.registerCommands();
+    }
+
+    /**
+     * Get the code a new note would be about, used to pre-fill its suggestion
+     */
+    public async getCode(filePath: string, line: number, range?: NoteRange): Promise<string | undefined> {
+        try {
+            const document = await vscode.workspace.openTextDocument(filePath);
+            return document.getText(this.getTargetRange(document, line, range));
+        } catch (error) {
+            console.error('[BUBULLE] Error reading code for suggestion:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Replace the code of a note with its suggestion, then resolve the note.
+     * Asks for confirmation when the code changed since the suggestion was written.
+     */
+    public async applySuggestion(noteId: string): Promise<Note | undefined> {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (!note?.suggestion) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return note;
+        }
+        if (!canEditNote(note)) {
+            vscode.window.showWarningMessage(
+                vscode.l10n.t(UI_STRINGS.ERRORS.DRAFT_READ_ONLY, { author: note.comments[0].author })
+            );
+            return note;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(note.filePath);
+            const range = this.getTargetRange(document, note.line, note.range);
+
+            if (note.outdated || document.getText(range) !== note.suggestion.original) {
+                const apply = vscode.l10n.t('Apply');
+                const confirm = await vscode.window.showWarningMessage(
+                    vscode.l10n.t(UI_STRINGS.PROMPTS.SUGGESTION_CODE_CHANGED),
+                    { modal: true },
+                    apply
+                );
+                if (confirm !== apply) {
+                    return note;
+                }
+            }
+
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(document.uri, range, note.suggestion.replacement);
+            if (!await vscode.workspace.applyEdit(edit)) {
+                vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.APPLY_SUGGESTION_ERROR));
+                return note;
+            }
+
+            const updated = this.notesStorage.markSuggestionApplied(note.id);
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.SUCCESS.SUGGESTION_APPLIED));
+            return updated;
+        } catch (error) {
+            console.error('[BUBULLE] Error applying suggestion:', error);
+            vscode.window.showErrorMessage(vscode.l10n.t(UI_STRINGS.ERRORS.APPLY_SUGGESTION_ERROR));
+            return note;
+        }
+    }
+
+    /**
+     * Open a diff between the current file and the file with the suggestion applied
+     */
+    public async previewSuggestion(noteId: string): Promise<void> {
+        const note = this.notesStorage.getNoteById(noteId);
+        if (!note?.suggestion) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            return;
+        }
+
+        const fileUri = vscode.Uri.file(note.filePath);
+        const suggestionUri = fileUri.with({ scheme: SUGGESTION_SCHEME, query: note.id });
+        const title = `${getRelativeDisplayPath(note.filePath)} (${getNoteLocationLabel(note)}) ↔ ${vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_LABEL)}`;
+        await vscode.commands.executeCommand('vscode.diff', fileUri, suggestionUri, title);
+    }
+
+    /**
+     * Provide the content of a file with the suggestion of a note applied
+     */
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const note = this.notesStorage.getNoteById(uri.query);
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(uri.fsPath));
+        if (!note?.suggestion) {
+            return document.getText();
+        }
+
+        const range = this.getTargetRange(document, note.line, note.range);
+        const text = document.getText();
+        return text.substring(0, document.offsetAt(range.start)) +
+            note.suggestion.replacement +
+            text.substring(document.offsetAt(range.end));
+    }
+
+    /**
+     * Get the code replaced by a suggestion: the note's range, or its whole line
+     */
+    private getTargetRange(document: vscode.TextDocument, line: number, range?: NoteRange): vscode.Range {
+        if (range) {
+            return document.validateRange(
+                new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter)
+            );
+        }
+        return document.lineAt(Math.min(line, document.lineCount - 1)).range;
+    }
+
+    /**
+     * Register the apply and preview commands, used by hover links. Without a
+     * note id they act on the note at the cursor.
+     */
+    private registerCommands(): void {
+        const applySuggestion = vscode.commands.registerCommand(
+            COMMANDS.APPLY_SUGGESTION,
+            async (noteId?: string) => {
+                const id = noteId ?? this.getNoteIdAtCursor();
+                if (id) {
+                    await this.applySuggestion(id);
+                }
+            }
+        );
+
+        const previewSuggestion = vscode.commands.registerCommand(
+            COMMANDS.PREVIEW_SUGGESTION,
+            async (noteId?: string) => {
+                const id = noteId ?? this.getNoteIdAtCursor();
+                if (id) {
+                    await this.previewSuggestion(id);
+                }
+            }
+        );
+
+        this.context.subscriptions.push(applySuggestion, previewSuggestion);
+    }
+
+    /**
+     * Get the note with a suggestion on the cursor line of the active editor
+     */
+    private getNoteIdAtCursor(): string | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const note = editor
+            ? this.notesStorage.getNoteAt(editor.document.uri.fsPath, editor.selection.active.line)
+            : undefined;
+        if (!note?.suggestion) {
+            vscode.window.showInformationMessage(vscode.l10n.t(UI_STRINGS.INFO.NO_SUGGESTION_AT_CURSOR));
+            return undefined;
+        }
+        return note.id;
+    }
+}
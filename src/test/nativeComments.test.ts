@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { COMMANDS, EXTENSION_ID } from '../constants';
+
+suite('Native comments', () => {
+    const filePath = path.join(os.tmpdir(), 'bubulle-native-comments.ts');
+
+    suiteSetup(async () => {
+        fs.writeFileSync(filePath, 'const answer = 42;\n');
+        // Native comments must be on before the extension starts
+        await vscode.workspace.getConfiguration(EXTENSION_ID).update('nativeComments', true, vscode.ConfigurationTarget.Global);
+        await vscode.extensions.getExtension('Joey-Galligani.bubulle')!.activate();
+    });
+
+    suiteTeardown(async () => {
+        await vscode.workspace.getConfiguration(EXTENSION_ID).update('nativeComments', undefined, vscode.ConfigurationTarget.Global);
+        fs.rmSync(filePath, { force: true });
+    });
+
+    test('should create a note from a new thread when native comments are on at startup', async () => {
+        const document = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(document);
+
+        const reply = {
+            thread: { uri: document.uri, range: new vscode.Range(0, 0, 0, 0), dispose: () => undefined },
+            text: 'Name this constant',
+        };
+        await assert.doesNotReject(async () => {
+            await vscode.commands.executeCommand(COMMANDS.COMMENTS_CREATE_NOTE, reply);
+        });
+    });
+});
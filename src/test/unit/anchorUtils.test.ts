@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { createAnchor, findAnchorLine, shiftLine } from '../../utils/anchorUtils';
+
+suite('anchorUtils', () => {
+    const lines = [
+        'function add(a, b) {',
+        '    return a + b;',
+        '}',
+        '',
+        'function sub(a, b) {',
+        '    return a - b;',
+        '}',
+    ];
+
+    test('should shift a note down when lines are inserted above it', () => {
+        const change = {
+            startLine: 1,
+            startCharacter: 0,
+            endLine: 1,
+            endCharacter: 0,
+            insertedLineCount: 2,
+            insertedTextEndsWithNewline: true,
+        };
+        assert.strictEqual(shiftLine(5, change), 7);
+        assert.strictEqual(shiftLine(1, change), 3);
+        assert.strictEqual(shiftLine(0, change), 0);
+    });
+
+    test('should shift a note up when lines above it are removed', () => {
+        const change = {
+            startLine: 0,
+            startCharacter: 0,
+            endLine: 3,
+            endCharacter: 0,
+            insertedLineCount: 0,
+            insertedTextEndsWithNewline: false,
+        };
+        assert.strictEqual(shiftLine(5, change), 2);
+    });
+
+    test('should find a line that moved', () => {
+        const anchor = createAnchor(lines, 5);
+        const edited = ['// header', '', ...lines];
+        assert.strictEqual(findAnchorLine(edited, anchor, 5), 7);
+    });
+
+    test('should find a line that was slightly edited', () => {
+        const anchor = createAnchor(lines, 5);
+        const edited = [...lines];
+        edited[5] = '    return a - b - 0;';
+        assert.strictEqual(findAnchorLine(edited, anchor, 5), 5);
+    });
+
+    test('should not find a line that was removed', () => {
+        const anchor = createAnchor(lines, 5);
+        const edited = lines.slice(0, 3);
+        assert.strictEqual(findAnchorLine(edited, anchor, 5), undefined);
+    });
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { Note } from '../../types';
+import { getCategoryDecorations, getNoteCategory, matchesNoteFilter, parseTags } from '../../utils/categoryUtils';
+
+suite('categoryUtils', () => {
+    const note: Note = {
+        id: 'note-1',
+        filePath: '/repo/src/app.ts',
+        line: 3,
+        comments: [{ id: 'c1', author: 'jane', body: 'Escape this', createdAt: '2025-09-11T14:30:00.000Z' }],
+        status: 'open',
+        severity: 'issue',
+        tags: ['perf', 'security'],
+        timestamp: '2025-09-11T14:30:00.000Z',
+    };
+
+    test('should read tags separated by commas or spaces', () => {
+        assert.deepStrictEqual(parseTags(' #Security, perf  perf,,ui '), ['security', 'perf', 'ui']);
+    });
+
+    test('should keep notes with one of the severities and one of the tags', () => {
+        assert.ok(matchesNoteFilter(note, {}));
+        assert.ok(matchesNoteFilter(note, { severities: ['issue', 'blocker'], tags: ['security'] }));
+        assert.ok(!matchesNoteFilter(note, { severities: ['nit'] }));
+        assert.ok(!matchesNoteFilter(note, { tags: ['ui'] }));
+    });
+
+    test('should override defaults and add tag categories from settings', () => {
+        const categories = getCategoryDecorations({
+            blocker: { iconText: '🛑', overviewRulerLane: 'diagonal' as any },
+            '#Security': { iconColor: '#ff0000' },
+        });
+        assert.strictEqual(categories.blocker.iconText, '🛑');
+        assert.strictEqual(categories.blocker.overviewRulerLane, 'full');
+        assert.strictEqual(categories.security.iconColor, '#ff0000');
+        assert.strictEqual(categories.security.iconText, categories.info.iconText);
+    });
+
+    test('should decorate a note with its first configured tag, otherwise its severity', () => {
+        const categories = getCategoryDecorations({ security: { iconText: '🔒' } });
+        assert.strictEqual(getNoteCategory(note, categories), 'security');
+        assert.strictEqual(getNoteCategory({ ...note, tags: ['perf'] }, categories), 'issue');
+    });
+});
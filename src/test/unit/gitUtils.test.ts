@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { getWorkingFilePath, hashGitBlob, parseGitStatus, parseHeadBranch, shortenCommit } from '../../utils/gitUtils';
+
+suite('gitUtils', () => {
+    test('should hash content like git hash-object', () => {
+        assert.strictEqual(hashGitBlob(''), 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391');
+        assert.strictEqual(hashGitBlob('hello\n'), 'ce013625030ba8dba906f756967f9e9ca394464a');
+        assert.strictEqual(hashGitBlob(Buffer.from('hello\n')), hashGitBlob('hello\n'));
+    });
+
+    test('should read the checked out branch from HEAD', () => {
+        assert.strictEqual(parseHeadBranch('ref: refs/heads/main\n'), 'main');
+        assert.strictEqual(parseHeadBranch('ref: refs/heads/feature/x\n'), 'feature/x');
+        assert.strictEqual(parseHeadBranch('af9d2b0c1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b\n'), undefined);
+    });
+
+    test('should map git documents back to their workspace file', () => {
+        assert.strictEqual(getWorkingFilePath({ scheme: 'file', fsPath: '/ws/a.ts', query: '' }), '/ws/a.ts');
+        assert.strictEqual(
+            getWorkingFilePath({ scheme: 'git', fsPath: '/ws/a.ts', query: JSON.stringify({ path: '/ws/b.ts', ref: 'HEAD' }) }),
+            '/ws/b.ts'
+        );
+        assert.strictEqual(getWorkingFilePath({ scheme: 'vscode-scm', fsPath: '/ws/a.ts', query: 'ref=HEAD' }), '/ws/a.ts');
+        assert.strictEqual(getWorkingFilePath({ scheme: 'untitled', fsPath: 'Untitled-1', query: '' }), undefined);
+    });
+
+    test('should parse the porcelain status of changed files', () => {
+        assert.deepStrictEqual(
+            parseGitStatus(' M src/a.ts\0A  src/b.ts\0R  src/new.ts\0src/old.ts\0?? notes.md\0UU src/c.ts\0'),
+            [
+                { path: 'src/a.ts', status: 'M' },
+                { path: 'src/b.ts', status: 'A' },
+                { path: 'src/new.ts', status: 'R' },
+                { path: 'notes.md', status: 'U' },
+                { path: 'src/c.ts', status: '!' },
+            ]
+        );
+    });
+
+    test('should shorten commits to seven characters', () => {
+        assert.strictEqual(shortenCommit('af9d2b0c1e2f3a4b5c6d7e8f9a0b1c2d3e4f5a6b'), 'af9d2b0');
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { Note } from '../../types';
+import { getNewReviewComments, parseReviewComments, toReviewComment } from '../../utils/githubReviewUtils';
+
+suite('githubReviewUtils', () => {
+    const note: Note = {
+        id: 'note-1',
+        filePath: '/repo/src/app.ts',
+        line: 11,
+        range: { startLine: 9, startCharacter: 0, endLine: 11, endCharacter: 4 },
+        comments: [
+            { id: 'c1', author: 'jane', body: 'Extract this', createdAt: '2025-09-11T14:30:00.000Z' },
+            { id: 'c2', author: 'joe', body: 'Agreed', createdAt: '2025-09-11T15:00:00.000Z' },
+        ],
+        status: 'open',
+        severity: 'info',
+        timestamp: '2025-09-11T14:30:00.000Z',
+    };
+
+    test('should export a multi-line note with 1-based lines', () => {
+        const comment = toReviewComment(note, 'src/app.ts');
+        assert.strictEqual(comment.path, 'src/app.ts');
+        assert.strictEqual(comment.line, 12);
+        assert.strictEqual(comment.start_line, 10);
+        assert.strictEqual(comment.side, 'RIGHT');
+        assert.ok(comment.body.startsWith('Extract this'));
+        assert.ok(comment.body.includes('**joe**: Agreed'));
+    });
+
+    test('should export a pending suggestion as a suggestion block', () => {
+        const comment = toReviewComment(
+            { ...note, suggestion: { original: 'run();', replacement: 'await run();' } },
+            'src/app.ts'
+        );
+        assert.ok(comment.body.includes('```suggestion\nawait run();\n```'));
+    });
+
+    test('should group replies under the comment they answer', () => {
+        const threads = parseReviewComments([
+            { id: 1, path: 'src/app.ts', line: 5, side: 'RIGHT', body: 'Why?', user: { login: 'jane' }, created_at: '2025-01-01T10:00:00Z' },
+            { id: 2, in_reply_to_id: 1, body: 'Because', user: { login: 'joe' }, created_at: '2025-01-01T11:00:00Z' },
+        ]);
+        assert.strictEqual(threads.length, 1);
+        assert.strictEqual(threads[0].line, 4);
+        assert.deepStrictEqual(threads[0].comments.map(c => c.author), ['jane', 'joe']);
+    });
+
+    test('should read a create-review body and mark comments without a current line as outdated', () => {
+        const threads = parseReviewComments({
+            comments: [
+                { path: 'a.ts', line: 3, start_line: 1, body: 'Range' },
+                { path: 'b.ts', line: null, original_line: 7, body: 'Old' },
+                { path: 'c.ts', body: 'No location' },
+            ],
+        });
+        assert.strictEqual(threads.length, 2);
+        assert.strictEqual(threads[0].startLine, 0);
+        assert.strictEqual(threads[0].outdated, false);
+        assert.strictEqual(threads[1].line, 6);
+        assert.strictEqual(threads[1].outdated, true);
+    });
+
+    test('should only bring the new replies of a thread imported again', () => {
+        const comment = { id: 1, path: 'src/app.ts', line: 5, body: 'Why?', user: { login: 'jane' }, created_at: '2025-01-01T10:00:00Z' };
+        const [first] = parseReviewComments([comment]);
+        const existing = first.comments.map((imported, index) => ({ id: `c${index}`, ...imported, createdAt: imported.createdAt! }));
+
+        const [again] = parseReviewComments([
+            comment,
+            { id: 2, in_reply_to_id: 1, body: 'Because', user: { login: 'joe' }, created_at: '2025-01-01T11:00:00Z' },
+        ]);
+        assert.deepStrictEqual(getNewReviewComments(existing, again.comments), [
+            { author: 'joe', body: 'Because', createdAt: '2025-01-01T11:00:00Z' },
+        ]);
+    });
+
+    test('should date comments with their review and match undated comments on author and body', () => {
+        const [dated] = parseReviewComments({ submitted_at: '2025-02-01T09:00:00Z', comments: [{ path: 'a.ts', line: 3, body: 'Range' }] });
+        assert.strictEqual(dated.comments[0].createdAt, '2025-02-01T09:00:00Z');
+
+        const [undated] = parseReviewComments({ comments: [{ path: 'a.ts', line: 3, body: 'Range' }] });
+        assert.strictEqual(undated.comments[0].createdAt, undefined);
+        const existing = [{ id: 'c1', author: 'github', body: 'Range', createdAt: '2025-03-01T09:00:00Z' }];
+        assert.deepStrictEqual(getNewReviewComments(existing, undated.comments), []);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { renderMarkdown, stripCommandLinks } from '../../utils/markdownUtils';
+
+suite('markdownUtils', () => {
+    test('should render code spans, emphasis and safe links', () => {
+        assert.strictEqual(
+            renderMarkdown('Use `a < b` **here**, see [docs](https://example.com/?a=1&b=2)'),
+            '<p>Use <code>a &lt; b</code> <strong>here</strong>, see <a href="https://example.com/?a=1&amp;b=2">docs</a></p>'
+        );
+    });
+
+    test('should render fenced code blocks and lists', () => {
+        assert.strictEqual(
+            renderMarkdown('Steps:\n- one\n- two\n\n```ts\nif (a && b) {}\n```'),
+            '<p>Steps:</p>\n<ul><li>one</li><li>two</li></ul>\n<pre><code class="language-ts">if (a &amp;&amp; b) {}</code></pre>'
+        );
+    });
+
+    test('should escape raw HTML and drop unsafe links', () => {
+        assert.strictEqual(
+            renderMarkdown('<img src=x onerror=alert(1)> [run](javascript:alert(1)) [cmd](command:foo)'),
+            '<p>&lt;img src=x onerror=alert(1)&gt; run cmd</p>'
+        );
+    });
+
+    test('should ignore token markers written in the note', () => {
+        assert.strictEqual(renderMarkdown('`\u00000\u0000` ok'), '<p><code>0</code> ok</p>');
+    });
+
+    test('should remove command links from hover Markdown', () => {
+        assert.strictEqual(stripCommandLinks('[apply](command:bubulle.applySuggestion?%5B%22x%22%5D) ok'), '[apply]() ok');
+        assert.strictEqual(stripCommandLinks('<command:workbench.action.quit>'), '');
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { Note } from '../../types';
+import { findAdjacentNote } from '../../utils/navigationUtils';
+
+suite('navigationUtils', () => {
+    const createNote = (filePath: string, line: number): Note => ({
+        id: `${filePath}:${line}`,
+        filePath,
+        line,
+        comments: [{ id: 'c1', author: 'jane', body: 'Note', createdAt: '2025-09-11T14:30:00.000Z' }],
+        status: 'open',
+        severity: 'info',
+        timestamp: '2025-09-11T14:30:00.000Z',
+    });
+    const notes = [createNote('/repo/a.ts', 2), createNote('/repo/a.ts', 10), createNote('/repo/c.ts', 0)];
+
+    test('should move within the current file before the next files', () => {
+        assert.strictEqual(findAdjacentNote(notes, '/repo/a.ts', 2, 'next')?.id, '/repo/a.ts:10');
+        assert.strictEqual(findAdjacentNote(notes, '/repo/a.ts', 10, 'next')?.id, '/repo/c.ts:0');
+        assert.strictEqual(findAdjacentNote(notes, '/repo/b.ts', 50, 'previous')?.id, '/repo/a.ts:10');
+    });
+
+    test('should wrap around at the ends of the workspace', () => {
+        assert.strictEqual(findAdjacentNote(notes, '/repo/c.ts', 0, 'next')?.id, '/repo/a.ts:2');
+        assert.strictEqual(findAdjacentNote(notes, '/repo/a.ts', 1, 'previous')?.id, '/repo/c.ts:0');
+        assert.strictEqual(findAdjacentNote(notes, undefined, 0, 'previous')?.id, '/repo/c.ts:0');
+        assert.strictEqual(findAdjacentNote([], '/repo/a.ts', 0, 'next'), undefined);
+    });
+});
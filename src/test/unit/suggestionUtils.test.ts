@@ -0,0 +1,14 @@
+import * as assert from 'assert';
+import { formatSuggestionDiff } from '../../utils/suggestionUtils';
+
+suite('suggestionUtils', () => {
+    test('should keep shared lines as context around the change', () => {
+        const diff = formatSuggestionDiff('if (a) {\n    run(a);\n}', 'if (a) {\n    await run(a);\n}');
+        assert.deepStrictEqual(diff, ['  if (a) {', '-     run(a);', '+     await run(a);', '  }']);
+    });
+
+    test('should show added lines only when the suggestion inserts code', () => {
+        const diff = formatSuggestionDiff('const a = 1;', 'const a = 1;\nconst b = 2;');
+        assert.deepStrictEqual(diff, ['  const a = 1;', '+ const b = 2;']);
+    });
+});
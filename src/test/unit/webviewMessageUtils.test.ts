@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { parseWebviewMessage } from '../../utils/webviewMessageUtils';
+
+suite('webviewMessageUtils', () => {
+    test('should keep only the fields of the command schema', () => {
+        assert.deepStrictEqual(
+            parseWebviewMessage({ command: 'setStatus', noteId: 'n1', status: 'resolved', html: '<b>' }, ['setStatus']),
+            { command: 'setStatus', noteId: 'n1', status: 'resolved' }
+        );
+        assert.deepStrictEqual(
+            parseWebviewMessage({ command: 'save', text: 'Fix', severity: 'nit' }, ['save', 'cancel']),
+            { command: 'save', text: 'Fix', severity: 'nit' }
+        );
+        assert.deepStrictEqual(
+            parseWebviewMessage({ command: 'openFile', noteId: 'n1', filePath: '/etc/passwd', line: 3 }, ['openFile']),
+            { command: 'openFile', noteId: 'n1' }
+        );
+    });
+
+    test('should reject unexpected commands and invalid fields', () => {
+        assert.strictEqual(parseWebviewMessage({ command: 'deleteNote', noteId: 'n1' }, ['openFile']), undefined);
+        assert.strictEqual(parseWebviewMessage({ command: 'openFile', filePath: '/a.ts', line: 3 }, ['openFile']), undefined);
+        assert.strictEqual(parseWebviewMessage({ command: 'setStatus', noteId: 'n1', status: 'done' }, ['setStatus']), undefined);
+        assert.strictEqual(parseWebviewMessage({ command: 'save', text: 'Fix', severity: 'urgent' }, ['save']), undefined);
+        assert.strictEqual(parseWebviewMessage('openFile', ['openFile']), undefined);
+    });
+});
@@ -3,31 +3,329 @@
  */
 
 export interface Note {
+    id: string;
     filePath: string;
+    /** Line showing the note, the last line of its range */
     line: number;
-    text: string;
+    /** Code the note is about when it spans more than a whole line */
+    range?: NoteRange;
+    /** Conversation on the note, the first comment opens the thread */
+    comments: NoteComment[];
+    status: NoteStatus;
+    severity: NoteSeverity;
+    /** Free-form labels, lowercase and without the leading # */
+    tags?: string[];
     timestamp: string;
+    anchor?: NoteAnchor;
+    /** Set when the anchored code could not be found anymore */
+    outdated?: boolean;
+    /** Proposed replacement for the code of the note */
+    suggestion?: NoteSuggestion;
+    /** Review the note was written in */
+    reviewId?: string;
+    /** Set until its review is finished; only the author of the note can change it meanwhile */
+    draft?: boolean;
+    /** Git revision of the file the note was written against */
+    revision?: NoteRevision;
+    /** Git branch the note belongs to; notes without one are global and shown on every branch */
+    branch?: string;
+    /** Set when the note is about a whole file or folder rather than a line; its line is then 0 */
+    subject?: NoteSubject;
+}
+
+export interface NoteRevision {
+    /** HEAD commit when the note was written */
+    commit: string;
+    /** Git blob hash of the file content when the note was written */
+    blob: string;
+    /** Line of the note in that content */
+    line: number;
+}
+
+export interface NoteSuggestion {
+    /** Code the suggestion replaces, as it was when the suggestion was written */
+    original: string;
+    replacement: string;
+    appliedAt?: string;
+}
+
+export interface NoteRange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+}
+
+export type NoteStatus = 'open' | 'resolved' | 'wontFix';
+
+export type NoteSeverity = 'info' | 'nit' | 'suggestion' | 'issue' | 'blocker';
+
+export type NoteSubject = 'file' | 'folder';
+
+export type NoteNavigationDirection = 'next' | 'previous';
+
+export interface NoteLabels {
+    severity: NoteSeverity;
+    tags: string[];
+}
+
+/**
+ * Notes to keep in a list or an export. An empty or missing criterion keeps every note.
+ */
+export interface NoteFilter {
+    severities?: NoteSeverity[];
+    tags?: string[];
+}
+
+export interface NoteComment {
+    id: string;
+    author: string;
+    body: string;
+    createdAt: string;
+    editedAt?: string;
+}
+
+export interface NoteAnchor {
+    /** Trimmed text of the anchored line */
+    text: string;
+    hash: string;
+    /** Trimmed lines just before and after the anchored line */
+    before: string[];
+    after: string[];
 }
 
 export interface NotesData {
     notes: Note[];
+    /** Finished reviews, kept in the notes file of the first workspace folder */
+    reviews?: NoteReview[];
 }
 
+export type ReviewVerdict = 'approve' | 'comment' | 'requestChanges';
+
+/**
+ * A review in progress: the notes written meanwhile are drafts
+ */
+export interface ReviewSession {
+    id: string;
+    author: string;
+    startedAt: string;
+}
+
+/**
+ * A finished review. Its notes carry its id.
+ */
+export interface NoteReview extends ReviewSession {
+    submittedAt: string;
+    verdict: ReviewVerdict;
+    /** Overall comment of the review, may be empty */
+    summary: string;
+}
+
+export type WebviewCommand =
+    | 'save'
+    | 'cancel'
+    | 'renderPreview'
+    | 'reply'
+    | 'editComment'
+    | 'deleteComment'
+    | 'applySuggestion'
+    | 'previewSuggestion'
+    | 'editSuggestion'
+    | 'close'
+    | 'openFile'
+    | 'deleteNote'
+    | 'setStatus';
+
 export interface WebviewMessage {
-    command: string;
+    command: WebviewCommand;
     text?: string;
-    filePath?: string;
-    line?: number;
+    noteId?: string;
+    commentId?: string;
+    status?: NoteStatus;
+    suggestion?: string;
+    severity?: NoteSeverity;
+    /** Tags as typed, separated by commas or spaces */
+    tags?: string;
+}
+
+export interface NoteEditorResult {
+    text: string;
+    /** Replacement code, when the note proposes a change */
+    suggestion?: string;
+    labels: NoteLabels;
+}
+
+export interface ThreadActions {
+    onReply: (noteId: string, text: string) => Promise<Note | undefined>;
+    onEditComment: (noteId: string, commentId: string, text: string) => Promise<Note | undefined>;
+    /** Resolves to undefined when the whole note was deleted */
+    onDeleteComment: (noteId: string, commentId: string) => Promise<Note | undefined>;
+    onApplySuggestion: (noteId: string) => Promise<Note | undefined>;
+    onPreviewSuggestion: (noteId: string) => void;
+    onEditSuggestion: (noteId: string, replacement: string) => Promise<Note | undefined>;
+}
+
+export interface NotesListActions {
+    onOpenNote: (noteId: string) => void;
+    onDeleteNote: (noteId: string) => void;
+    onSetStatus: (noteId: string, status: NoteStatus) => void;
+}
+
+/**
+ * A note as sent to the notes list webview, which searches, filters, sorts and renders notes itself
+ */
+export interface NotesListItem {
+    id: string;
+    filePath: string;
+    /** Path relative to the workspace with forward slashes, matched by the file filter */
+    displayPath: string;
+    line: number;
+    locationLabel: string;
+    status: NoteStatus;
+    severity: NoteSeverity;
+    tags: string[];
+    author: string;
+    text: string;
+    /** Note text rendered from Markdown and sanitized */
+    textHtml: string;
+    replies: { author: string; body: string; bodyHtml: string }[];
+    timestamp: string;
+    timestampLabel: string;
+}
+
+export interface NotesTreeActions {
+    onOpenNote: (note: Note) => void;
+    onEditNote: (note: Note) => void;
+    onDeleteNote: (note: Note) => void;
+    onSetStatus: (noteId: string, status: NoteStatus) => void;
+}
+
+/**
+ * Element of the notes tree view: a workspace folder, a file or a note
+ */
+export type NotesTreeNode =
+    | { type: 'folder'; label: string; notes: Note[] }
+    | { type: 'file'; filePath: string; notes: Note[] }
+    | { type: 'note'; note: Note };
+
+export interface ReviewsTreeActions {
+    onOpenNote: (note: Note) => void;
+    onExportReview: (review: NoteReview) => void;
+}
+
+/**
+ * Element of the reviews tree view: a finished review or one of its notes
+ */
+export type ReviewsTreeNode =
+    | { type: 'review'; review: NoteReview }
+    | { type: 'note'; note: Note };
+
+export interface ChangesTreeActions {
+    onOpenNote: (note: Note) => void;
+}
+
+/**
+ * Element of the notes on changes view: a changed file with notes, or one of its notes
+ */
+export type ChangesTreeNode =
+    | { type: 'file'; filePath: string; status: string; notes: Note[] }
+    | { type: 'note'; note: Note };
+
+export interface CodeLensActions {
+    onOpenNote: (note: Note) => void;
 }
 
+export interface NativeCommentActions {
+    /** Resolves to undefined when the whole note was deleted */
+    onDeleteComment: (noteId: string, commentId: string) => Promise<Note | undefined>;
+    onDeleteNote: (note: Note) => Promise<void>;
+}
+
+export type OverviewRulerLaneName = 'left' | 'center' | 'right' | 'full';
+
+/**
+ * Editor decoration of a note category, a severity or a tag
+ */
 export interface DecorationConfig {
     overviewRulerColor: string;
+    overviewRulerLane: OverviewRulerLaneName;
     iconText: string;
     iconColor: string;
     backgroundColor: string;
     margin: string;
 }
 
+export type StorageLocation = 'workspace' | 'workspaceStorage' | 'globalStorage';
+
+/** How notes are shown above or after their code: icons after the line, CodeLens, or both */
+export type DisplayMode = 'inline' | 'codeLens' | 'both';
+
 export interface ExtensionConfig {
+    author: string;
     notesFile: string;
+    storageLocation: StorageLocation;
+    /** Show notes as native VS Code comment threads instead of decorations */
+    nativeComments: boolean;
+    displayMode: DisplayMode;
+    showResolvedNotes: boolean;
+    /** New notes belong to the current git branch */
+    branchNotes: boolean;
+    /** Decoration overrides keyed by severity or tag */
+    categories: Record<string, Partial<DecorationConfig>>;
+}
+
+export type ExportScope = 'file' | 'folder' | 'workspace';
+
+export type ExportDestination = 'editor' | 'file' | 'clipboard';
+
+/**
+ * A comment of the GitHub "create a review" request body
+ */
+export interface GitHubReviewComment {
+    path: string;
+    line: number;
+    side: 'LEFT' | 'RIGHT';
+    body: string;
+    start_line?: number;
+    start_side?: 'LEFT' | 'RIGHT';
+}
+
+export interface GitHubReview {
+    body: string;
+    event: 'COMMENT';
+    comments: GitHubReviewComment[];
+}
+
+/**
+ * A review thread read from a GitHub review comments dump, with 0-based lines
+ */
+export interface ImportedReviewThread {
+    path: string;
+    line: number;
+    startLine?: number;
+    side: 'LEFT' | 'RIGHT';
+    /** Whether GitHub no longer maps the comment to the current diff */
+    outdated: boolean;
+    comments: ImportedReviewComment[];
+}
+
+/**
+ * A comment of an imported review thread
+ */
+export interface ImportedReviewComment {
+    author: string;
+    body: string;
+    /** Missing when neither the comment nor its review has a date */
+    createdAt?: string;
+}
+
+export interface NotesChangeEvent {
+    /** Absolute paths of the files whose notes were added, changed or removed */
+    filePaths: string[];
+}
+
+export interface NotesStore {
+    notesFilePath: string;
+    /** Folder that stored file paths are relative to, absent for the fallback store */
+    rootPath?: string;
 }
@@ -0,0 +1,164 @@
+/**
+ * Anchoring utilities that keep notes attached to the code they were written on
+ */
+
+import * as crypto from 'crypto';
+import { NoteAnchor } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+
+/**
+ * A text change expressed in line terms, as seen before the change is applied
+ */
+export interface LineChange {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+    /** Number of line breaks in the inserted text */
+    insertedLineCount: number;
+    /** Whether the inserted text ends with a line break */
+    insertedTextEndsWithNewline: boolean;
+}
+
+/**
+ * Hash a line of code, ignoring surrounding whitespace
+ */
+export function hashLine(text: string): string {
+    return crypto.createHash('sha1').update(text.trim()).digest('hex').substring(0, 16);
+}
+
+/**
+ * Capture the anchored line and its surrounding context
+ */
+export function createAnchor(
+    lines: string[],
+    line: number,
+    contextSize: number = DEFAULT_CONFIG.ANCHOR_CONTEXT_LINES
+): NoteAnchor {
+    const text = (lines[line] ?? '').trim();
+    return {
+        text,
+        hash: hashLine(text),
+        before: lines.slice(Math.max(0, line - contextSize), line).map(l => l.trim()),
+        after: lines.slice(line + 1, line + 1 + contextSize).map(l => l.trim()),
+    };
+}
+
+/**
+ * Compute where a line ends up after a change, or keep it in place when the
+ * change does not move it
+ */
+export function shiftLine(line: number, change: LineChange): number {
+    const removedLineCount = change.endLine - change.startLine;
+    const delta = change.insertedLineCount - removedLineCount;
+
+    if (line > change.endLine) {
+        return line + delta;
+    }
+
+    // Lines inserted right before the anchored line push it down
+    const isInsertionAtLineStart =
+        line === change.startLine &&
+        removedLineCount === 0 &&
+        change.startCharacter === 0 &&
+        change.endCharacter === 0 &&
+        change.insertedTextEndsWithNewline;
+    if (isInsertionAtLineStart) {
+        return line + delta;
+    }
+
+    // The anchored line was removed: keep the note on the surviving text
+    if (line > change.startLine) {
+        return Math.min(line, change.startLine + change.insertedLineCount);
+    }
+
+    return line;
+}
+
+/**
+ * Find the line a note should be attached to in the current content.
+ * Returns undefined when no line matches the anchor closely enough.
+ */
+export function findAnchorLine(lines: string[], anchor: NoteAnchor, expectedLine: number): number | undefined {
+    if (expectedLine < lines.length && hashLine(lines[expectedLine]) === anchor.hash) {
+        return expectedLine;
+    }
+
+    let bestLine: number | undefined;
+    let bestScore = 0;
+
+    for (let line = 0; line < lines.length; line++) {
+        const score = scoreCandidate(lines, line, anchor, expectedLine);
+        if (score > bestScore) {
+            bestScore = score;
+            bestLine = line;
+        }
+    }
+
+    return bestScore >= DEFAULT_CONFIG.ANCHOR_MATCH_THRESHOLD ? bestLine : undefined;
+}
+
+/**
+ * Score how well a line matches an anchor, from 0 to 1
+ */
+function scoreCandidate(lines: string[], line: number, anchor: NoteAnchor, expectedLine: number): number {
+    const lineScore = similarity(lines[line].trim(), anchor.text);
+    if (lineScore < DEFAULT_CONFIG.ANCHOR_MATCH_THRESHOLD / 2) {
+        return 0;
+    }
+
+    const before = lines.slice(Math.max(0, line - anchor.before.length), line).map(l => l.trim());
+    const after = lines.slice(line + 1, line + 1 + anchor.after.length).map(l => l.trim());
+    const contextScore = (contextSimilarity(before.reverse(), [...anchor.before].reverse()) +
+        contextSimilarity(after, anchor.after)) / 2;
+
+    // Prefer the closest candidate when several lines match equally well
+    const distancePenalty = Math.min(Math.abs(line - expectedLine) / Math.max(lines.length, 1), 1) * 0.05;
+
+    return lineScore * 0.7 + contextScore * 0.3 - distancePenalty;
+}
+
+/**
+ * Average similarity of two lists of lines, compared from their first element
+ */
+function contextSimilarity(actual: string[], expected: string[]): number {
+    if (expected.length === 0) {
+        return 1;
+    }
+
+    const total = expected.reduce(
+        (sum, expectedLine, index) => sum + (index < actual.length ? similarity(actual[index], expectedLine) : 0),
+        0
+    );
+    return total / expected.length;
+}
+
+/**
+ * Dice coefficient over character bigrams, from 0 (different) to 1 (identical)
+ */
+export function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+
+    let matches = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigrams.get(bigram) || 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            matches++;
+        }
+    }
+
+    return (2 * matches) / (a.length + b.length - 2);
+}
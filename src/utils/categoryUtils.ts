@@ -0,0 +1,89 @@
+/**
+ * Helpers for note severities, tags and the decoration categories they map to
+ */
+
+import { DecorationConfig, Note, NoteFilter, NoteSeverity } from '../types';
+import { DEFAULT_CATEGORY_DECORATIONS, DEFAULT_CONFIG, NOTE_SEVERITY_LABELS } from '../constants';
+
+export const NOTE_SEVERITIES = Object.keys(NOTE_SEVERITY_LABELS) as NoteSeverity[];
+
+const OVERVIEW_RULER_LANES = ['left', 'center', 'right', 'full'];
+
+/**
+ * Check whether a value is a known severity
+ */
+export function isNoteSeverity(value: unknown): value is NoteSeverity {
+    return typeof value === 'string' && (NOTE_SEVERITIES as string[]).includes(value);
+}
+
+/**
+ * Normalize a tag: lowercase, without spaces around it or a leading #
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+/**
+ * Read the tags typed by the user, separated by commas or spaces
+ */
+export function parseTags(text: string): string[] {
+    const tags = text.split(/[\s,]+/).map(normalizeTag).filter(Boolean);
+    return [...new Set(tags)];
+}
+
+/**
+ * Get every tag used by the given notes, sorted
+ */
+export function getAllTags(notes: Note[]): string[] {
+    return [...new Set(notes.flatMap(note => note.tags ?? []))].sort();
+}
+
+/**
+ * Check whether a note is kept by a filter: it must have one of the
+ * severities and one of the tags, when they are given
+ */
+export function matchesNoteFilter(note: Note, filter: NoteFilter): boolean {
+    if (filter.severities?.length && !filter.severities.includes(note.severity)) {
+        return false;
+    }
+    if (filter.tags?.length && !note.tags?.some(tag => filter.tags!.includes(tag))) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Build the decoration of every category from the bubulle.categories setting.
+ * Severities start from their default decoration, tags from the info one.
+ * Invalid values in the setting are ignored.
+ */
+export function getCategoryDecorations(
+    custom: Record<string, Partial<DecorationConfig>> = {}
+): Record<string, DecorationConfig> {
+    const categories: Record<string, DecorationConfig> = { ...DEFAULT_CATEGORY_DECORATIONS };
+
+    for (const [key, overrides] of Object.entries(custom)) {
+        const name = isNoteSeverity(key) ? key : normalizeTag(key);
+        if (!name || !overrides || typeof overrides !== 'object') {
+            continue;
+        }
+
+        const base = categories[name] ?? DEFAULT_CATEGORY_DECORATIONS[DEFAULT_CONFIG.SEVERITY];
+        const valid = Object.entries(overrides).filter(([property, value]) =>
+            property in base &&
+            typeof value === 'string' &&
+            (property !== 'overviewRulerLane' || OVERVIEW_RULER_LANES.includes(value))
+        );
+        categories[name] = { ...base, ...Object.fromEntries(valid) };
+    }
+
+    return categories;
+}
+
+/**
+ * Get the category deciding how a note is decorated: its first tag that has
+ * a decoration of its own, otherwise its severity
+ */
+export function getNoteCategory(note: Note, categories: Record<string, DecorationConfig>): string {
+    return note.tags?.find(tag => !isNoteSeverity(tag) && categories[tag] !== undefined) ?? note.severity;
+}
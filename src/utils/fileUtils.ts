@@ -5,9 +5,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
 import { EXTENSION_ID, DEFAULT_CONFIG } from '../constants';
-import { ExtensionConfig } from '../types';
+import { DecorationConfig, DisplayMode, ExtensionConfig, StorageLocation } from '../types';
 
 /**
  * Get the configuration for the extension
@@ -15,40 +16,97 @@ import { ExtensionConfig } from '../types';
 export function getExtensionConfig(): ExtensionConfig {
     const config = vscode.workspace.getConfiguration(EXTENSION_ID);
     return {
-        notesFile: config.get<string>('notesFile') || DEFAULT_CONFIG.NOTES_FILE
+        author: config.get<string>('author') || getSystemUserName(),
+        notesFile: config.get<string>('notesFile') || DEFAULT_CONFIG.NOTES_FILE,
+        storageLocation: config.get<StorageLocation>('storageLocation') || DEFAULT_CONFIG.STORAGE_LOCATION,
+        nativeComments: config.get<boolean>('nativeComments') ?? false,
+        displayMode: config.get<DisplayMode>('displayMode') || DEFAULT_CONFIG.DISPLAY_MODE,
+        showResolvedNotes: config.get<boolean>('showResolvedNotes') ?? true,
+        branchNotes: config.get<boolean>('branchNotes') ?? false,
+        categories: config.get<Record<string, Partial<DecorationConfig>>>('categories') ?? {}
     };
 }
 
 /**
- * Get the path to the notes file
+ * Get the name of the operating system user, used as default note author
  */
-export function getNotesFilePath(): string {
-    const config = getExtensionConfig();
-    
-    // Store notes in the extension directory
-    const extensionPath = getExtensionPath();
-    const bubulleNotesDir = path.join(extensionPath, 'bubulle-notes');
-    
+function getSystemUserName(): string {
     try {
-        // Create the bubulle-notes directory if it doesn't exist
-        if (!fs.existsSync(bubulleNotesDir)) {
-            fs.mkdirSync(bubulleNotesDir, { recursive: true });
-            console.log(`Created bubulle-notes directory: ${bubulleNotesDir}`);
-        }
-        
-        const notesPath = path.join(bubulleNotesDir, config.notesFile);
-        console.log(`Using extension notes file: ${notesPath}`);
-        return notesPath;
-    } catch (error) {
-        console.warn('Could not create bubulle-notes directory, falling back to home directory');
-        const notesPath = path.join(os.homedir(), config.notesFile);
-        console.log(`Using fallback notes file: ${notesPath}`);
-        return notesPath;
+        return os.userInfo().username;
+    } catch {
+        return DEFAULT_CONFIG.UNKNOWN_AUTHOR;
+    }
+}
+
+/**
+ * Get the path to the notes file for a workspace folder, or the fallback
+ * store used for files that live outside every workspace folder
+ */
+export function getNotesFilePath(
+    context: vscode.ExtensionContext,
+    folder?: vscode.WorkspaceFolder
+): string {
+    const config = getExtensionConfig();
+
+    if (!folder) {
+        return path.join(context.globalStorageUri.fsPath, 'notes.json');
     }
+
+    const folderKey = getFolderStorageKey(folder);
+
+    switch (config.storageLocation) {
+        case 'workspaceStorage':
+            if (context.storageUri) {
+                return path.join(context.storageUri.fsPath, `notes-${folderKey}.json`);
+            }
+            // No workspace storage without a workspace, use global storage instead
+            return path.join(context.globalStorageUri.fsPath, 'workspaces', folderKey, 'notes.json');
+        case 'globalStorage':
+            return path.join(context.globalStorageUri.fsPath, 'workspaces', folderKey, 'notes.json');
+        case 'workspace':
+        default:
+            return path.resolve(folder.uri.fsPath, config.notesFile);
+    }
+}
+
+/**
+ * Get a short, stable key identifying a workspace folder in shared storage
+ */
+export function getFolderStorageKey(folder: vscode.WorkspaceFolder): string {
+    return crypto.createHash('sha1').update(folder.uri.toString()).digest('hex').substring(0, 12);
+}
+
+/**
+ * Get the path of the notes file written by versions up to 0.1.0, if it exists
+ */
+export function getLegacyNotesFilePath(): string | null {
+    const candidates = [
+        path.join(getExtensionPath(), 'bubulle-notes', DEFAULT_CONFIG.LEGACY_NOTES_FILE),
+        path.join(os.homedir(), DEFAULT_CONFIG.LEGACY_NOTES_FILE),
+    ];
+
+    return candidates.find(candidate => fs.existsSync(candidate)) || null;
+}
+
+/**
+ * Get the archive file kept next to a notes file, e.g. `.bubulle/notes.archive.json`
+ */
+export function getArchiveFilePath(notesFilePath: string): string {
+    const extension = path.extname(notesFilePath);
+    return path.join(path.dirname(notesFilePath), `${path.basename(notesFilePath, extension)}.archive.json`);
 }
 
 /**
- * Get the extension installation path
+ * Check whether a path is a given file or lies inside a given folder
+ */
+export function isSameOrInside(filePath: string, targetPath: string): boolean {
+    const resolvedPath = path.resolve(filePath);
+    const resolvedTarget = path.resolve(targetPath);
+    return resolvedPath === resolvedTarget || resolvedPath.startsWith(resolvedTarget + path.sep);
+}
+
+/**
+ * Get the extension installation path used by the legacy notes file
  */
 export function getExtensionPath(): string {
     // Try to find the extension path by looking for the extension directory
@@ -63,15 +121,39 @@ export function getExtensionPath(): string {
     
     for (const possiblePath of possiblePaths) {
         if (fs.existsSync(possiblePath)) {
-            console.log(`Found extension path: ${possiblePath}`);
             return possiblePath;
         }
     }
     
-    // If no extension directory found, create one in the first possible location
-    const fallbackPath = possiblePaths[0];
-    console.log(`Extension directory not found, using fallback: ${fallbackPath}`);
-    return fallbackPath;
+    return possiblePaths[0];
+}
+
+/**
+ * Convert an absolute file path to the form stored in a notes file.
+ * Paths inside the store root are kept relative with forward slashes so the
+ * notes file can be committed and shared across machines.
+ */
+export function toStoredPath(filePath: string, rootPath?: string): string {
+    if (!rootPath) {
+        return filePath;
+    }
+
+    const relativePath = path.relative(rootPath, filePath);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        return filePath;
+    }
+
+    return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Convert a path read from a notes file back to an absolute file path
+ */
+export function fromStoredPath(storedPath: string, rootPath?: string): string {
+    if (!rootPath || path.isAbsolute(storedPath)) {
+        return path.resolve(storedPath);
+    }
+    return path.resolve(rootPath, ...storedPath.split('/'));
 }
 
 /**
@@ -0,0 +1,241 @@
+/**
+ * Git utilities reading revisions and branches through the local git CLI and the .git directory
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DEFAULT_CONFIG } from '../constants';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitRevision {
+    commit: string;
+    blob: string;
+}
+
+/**
+ * Compute the git blob hash of a content, as `git hash-object` does without filters
+ */
+export function hashGitBlob(content: string | Buffer): string {
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    return crypto.createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
+
+/**
+ * Shorten a commit hash for display, like `git log --oneline`
+ */
+export function shortenCommit(commit: string): string {
+    return commit.substring(0, 7);
+}
+
+/**
+ * Run a git command in a directory without blocking the extension host.
+ * Resolves to undefined when git is missing, the directory is not in a
+ * repository or the command fails.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string | undefined> {
+    try {
+        const { stdout } = await execFileAsync('git', args, {
+            cwd,
+            encoding: 'utf8',
+            timeout: DEFAULT_CONFIG.GIT_TIMEOUT_MS,
+            maxBuffer: 64 * 1024 * 1024,
+        });
+        return stdout;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the HEAD commit of the repository of a file and the blob hash of the file
+ * on disk. Returns undefined for files outside a git repository or in one
+ * without commits.
+ */
+export async function getGitRevision(filePath: string): Promise<GitRevision | undefined> {
+    const commit = (await runGit(path.dirname(filePath), ['rev-parse', '--verify', '--quiet', 'HEAD']))?.trim();
+    if (!commit) {
+        return undefined;
+    }
+    try {
+        return { commit, blob: hashGitBlob(await fs.promises.readFile(filePath)) };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read the content of a file as it was in a revision: the recorded blob when
+ * git has it, otherwise the file in the recorded commit
+ */
+export async function readGitRevision(filePath: string, revision: GitRevision): Promise<string | undefined> {
+    const cwd = path.dirname(filePath);
+    const blob = await runGit(cwd, ['cat-file', 'blob', revision.blob]);
+    if (blob !== undefined) {
+        return blob;
+    }
+
+    const root = (await runGit(cwd, ['rev-parse', '--show-toplevel']))?.trim();
+    if (!root) {
+        return undefined;
+    }
+    const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+    return runGit(cwd, ['show', `${revision.commit}:${relativePath}`]);
+}
+
+/**
+ * Get the branch checked out in a `HEAD` file, or undefined when HEAD is detached
+ */
+export function parseHeadBranch(head: string): string | undefined {
+    const match = /^ref: refs\/heads\/(.+)$/m.exec(head);
+    return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Find the git directory of the repository holding a directory, following
+ * the `.git` file of worktrees and submodules
+ */
+export function findGitDirectory(directory: string): string | undefined {
+    let current = path.resolve(directory);
+    while (true) {
+        const dotGit = path.join(current, '.git');
+        try {
+            const stats = fs.statSync(dotGit);
+            if (stats.isDirectory()) {
+                return dotGit;
+            }
+            const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf8'));
+            return match ? path.resolve(current, match[1].trim()) : undefined;
+        } catch {
+            // No .git here, look in the parent folder
+        }
+
+        const parent = path.dirname(current);
+        if (parent === current) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
+
+/**
+ * Get the branch checked out in a git directory, or undefined when HEAD is detached
+ */
+export function readCurrentBranch(gitDirectory: string): string | undefined {
+    try {
+        return parseHeadBranch(fs.readFileSync(path.join(gitDirectory, 'HEAD'), 'utf8'));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Get the branch checked out in the repository of a file, or undefined
+ * outside a repository or when HEAD is detached
+ */
+export function getCurrentBranch(filePath: string): string | undefined {
+    const gitDirectory = findGitDirectory(path.dirname(filePath));
+    return gitDirectory ? readCurrentBranch(gitDirectory) : undefined;
+}
+
+/**
+ * Get the local branches of the repository of a file, or undefined when
+ * they can't be listed
+ */
+export async function getLocalBranches(filePath: string): Promise<string[] | undefined> {
+    const output = await runGit(path.dirname(filePath), ['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+    return output?.split('\n').map(branch => branch.trim()).filter(branch => branch.length > 0);
+}
+
+/** URI schemes of documents showing another version of a workspace file */
+const SCM_SCHEMES = ['git', 'gitlens', 'vscode-scm'];
+
+/**
+ * The parts of a document URI needed to find its workspace file
+ */
+export interface DocumentUri {
+    scheme: string;
+    fsPath: string;
+    query: string;
+}
+
+export interface GitFileChange {
+    filePath: string;
+    /** Status letter as shown by the Source Control view: M, A, D, R, C, U (untracked) or ! (conflict) */
+    status: string;
+}
+
+/**
+ * Get the workspace file shown by a document: the file itself, or the file a
+ * git or SCM document is a version of. Returns undefined for other documents.
+ */
+export function getWorkingFilePath(uri: DocumentUri): string | undefined {
+    if (uri.scheme === 'file') {
+        return uri.fsPath;
+    }
+    if (!SCM_SCHEMES.includes(uri.scheme)) {
+        return undefined;
+    }
+
+    // The git extension keeps the path of the working file in a JSON query
+    try {
+        const query = JSON.parse(uri.query);
+        if (typeof query?.path === 'string') {
+            return query.path;
+        }
+    } catch {
+        // Not a JSON query: the document path is the file path
+    }
+    return uri.fsPath;
+}
+
+/**
+ * Parse the output of `git status --porcelain -z` into paths relative to the
+ * repository root and their status letter
+ */
+export function parseGitStatus(output: string): { path: string; status: string }[] {
+    const conflicts = ['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'];
+    const entries = output.split('\0');
+    const changes: { path: string; status: string }[] = [];
+
+    for (let index = 0; index < entries.length; index++) {
+        const entry = entries[index];
+        if (entry.length < 4) {
+            continue;
+        }
+
+        const code = entry.substring(0, 2);
+        let status = code[0] !== ' ' ? code[0] : code[1];
+        if (code === '??') {
+            status = 'U';
+        } else if (conflicts.includes(code)) {
+            status = '!';
+        }
+        changes.push({ path: entry.substring(3), status });
+
+        // Renames and copies are followed by their original path
+        if (code[0] === 'R' || code[0] === 'C') {
+            index++;
+        }
+    }
+    return changes;
+}
+
+/**
+ * Get the files changed in the working tree or the index of the repository
+ * holding a directory, or undefined when git can't tell
+ */
+export async function getChangedFiles(directory: string): Promise<GitFileChange[] | undefined> {
+    const root = (await runGit(directory, ['rev-parse', '--show-toplevel']))?.trim();
+    const output = root ? await runGit(directory, ['status', '--porcelain', '-z', '--untracked-files=all']) : undefined;
+    if (!root || output === undefined) {
+        return undefined;
+    }
+    return parseGitStatus(output).map(change => ({
+        filePath: path.join(root, change.path),
+        status: change.status,
+    }));
+}
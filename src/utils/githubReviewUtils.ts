@@ -0,0 +1,126 @@
+/**
+ * Conversion between notes and GitHub pull-request review comments
+ */
+
+import { GitHubReviewComment, ImportedReviewComment, ImportedReviewThread, Note, NoteComment } from '../types';
+import { hasPendingSuggestion } from './suggestionUtils';
+
+/**
+ * Convert a note to a comment of the "create a review" request body.
+ * GitHub lines are 1-based; a pending suggestion becomes a suggestion block
+ * and replies are appended below the first comment.
+ */
+export function toReviewComment(note: Note, reviewPath: string): GitHubReviewComment {
+    const [first, ...replies] = note.comments;
+    const body = [
+        first?.body ?? '',
+        ...(note.suggestion && hasPendingSuggestion(note) ? ['```suggestion\n' + note.suggestion.replacement + '\n```'] : []),
+        ...replies.map(reply => `---\n\n**${reply.author}**: ${reply.body}`),
+    ].join('\n\n');
+
+    const comment: GitHubReviewComment = {
+        path: reviewPath,
+        line: note.line + 1,
+        side: 'RIGHT',
+        body,
+    };
+
+    const startLine = note.range?.startLine ?? note.line;
+    if (startLine < note.line) {
+        comment.start_line = startLine + 1;
+        comment.start_side = 'RIGHT';
+    }
+    return comment;
+}
+
+/**
+ * Read review threads from a saved GitHub JSON file. Accepts the array returned
+ * by the "list review comments" endpoint as well as a "create a review" body.
+ * Replies are attached to the thread of the comment they answer.
+ */
+export function parseReviewComments(data: any): ImportedReviewThread[] {
+    const rawComments: any[] = Array.isArray(data) ? data : Array.isArray(data?.comments) ? data.comments : [];
+    // Comments of a review body share the date it was submitted, if any
+    const submittedAt = typeof data?.submitted_at === 'string' ? data.submitted_at : undefined;
+    const threads = new Map<unknown, ImportedReviewThread>();
+    const replies: any[] = [];
+    const result: ImportedReviewThread[] = [];
+
+    for (const raw of rawComments) {
+        if (!raw || typeof raw.body !== 'string' || !raw.body.trim()) {
+            continue;
+        }
+        if (raw.in_reply_to_id !== undefined && raw.in_reply_to_id !== null) {
+            replies.push(raw);
+            continue;
+        }
+
+        const thread = toThread(raw, submittedAt);
+        if (thread) {
+            result.push(thread);
+            if (raw.id !== undefined) {
+                threads.set(raw.id, thread);
+            }
+        }
+    }
+
+    for (const reply of replies) {
+        threads.get(reply.in_reply_to_id)?.comments.push(toImportedComment(reply, submittedAt));
+    }
+
+    result.forEach(thread => thread.comments.sort((a, b) => (a.createdAt ?? '').localeCompare(b.createdAt ?? '')));
+    return result;
+}
+
+/**
+ * Start a thread from a top-level review comment, or undefined if it has no location
+ */
+function toThread(raw: any, submittedAt: string | undefined): ImportedReviewThread | undefined {
+    const line = typeof raw.line === 'number' ? raw.line : raw.original_line;
+    if (typeof raw.path !== 'string' || typeof line !== 'number' || line < 1) {
+        return undefined;
+    }
+
+    const thread: ImportedReviewThread = {
+        path: raw.path,
+        line: line - 1,
+        side: raw.side === 'LEFT' ? 'LEFT' : 'RIGHT',
+        outdated: typeof raw.line !== 'number',
+        comments: [toImportedComment(raw, submittedAt)],
+    };
+
+    const startLine = typeof raw.start_line === 'number' ? raw.start_line : raw.original_start_line;
+    if (typeof startLine === 'number' && startLine >= 1 && startLine < line) {
+        thread.startLine = startLine - 1;
+    }
+    return thread;
+}
+
+/**
+ * Read the author, body and date of a review comment. Comments without a
+ * date take the one of their review, so importing them again finds them.
+ */
+function toImportedComment(raw: any, submittedAt: string | undefined): ImportedReviewComment {
+    const comment: ImportedReviewComment = {
+        author: typeof raw.user?.login === 'string' ? raw.user.login : 'github',
+        body: raw.body.trim(),
+    };
+    const createdAt = typeof raw.created_at === 'string' ? raw.created_at : submittedAt;
+    if (createdAt) {
+        comment.createdAt = createdAt;
+    }
+    return comment;
+}
+
+/**
+ * Get the comments of an imported thread that a note doesn't have yet.
+ * Comments match on author, body and date, or on author and body alone
+ * when the imported comment has no date.
+ */
+export function getNewReviewComments(existing: NoteComment[], comments: ImportedReviewComment[]): ImportedReviewComment[] {
+    return comments.filter(comment => !existing.some(other =>
+        other.author === comment.author &&
+        other.body === comment.body &&
+        (comment.createdAt === undefined || other.createdAt === comment.createdAt)
+    ));
+}
@@ -0,0 +1,79 @@
+/**
+ * Localized labels and dates, following the VS Code display language
+ */
+
+import * as vscode from 'vscode';
+import { NoteSeverity, NoteStatus, NoteSubject, ReviewVerdict } from '../types';
+import { NOTE_SEVERITY_LABELS, NOTE_STATUS_LABELS, REVIEW_VERDICT_LABELS, UI_STRINGS } from '../constants';
+
+/**
+ * Get the localized label of a note status
+ */
+export function getStatusLabel(status: NoteStatus): string {
+    return vscode.l10n.t(NOTE_STATUS_LABELS[status]);
+}
+
+/**
+ * Get the localized label of a note severity
+ */
+export function getSeverityLabel(severity: NoteSeverity): string {
+    return vscode.l10n.t(NOTE_SEVERITY_LABELS[severity]);
+}
+
+/**
+ * Get the localized label of a review verdict
+ */
+export function getVerdictLabel(verdict: ReviewVerdict): string {
+    return vscode.l10n.t(REVIEW_VERDICT_LABELS[verdict]);
+}
+
+/**
+ * Get the localized labels of every status, for webviews
+ */
+export function getStatusLabels(): Record<NoteStatus, string> {
+    return {
+        open: getStatusLabel('open'),
+        resolved: getStatusLabel('resolved'),
+        wontFix: getStatusLabel('wontFix'),
+    };
+}
+
+/**
+ * Get the localized labels of every severity, for webviews
+ */
+export function getSeverityLabels(): Record<NoteSeverity, string> {
+    return {
+        info: getSeverityLabel('info'),
+        nit: getSeverityLabel('nit'),
+        suggestion: getSeverityLabel('suggestion'),
+        issue: getSeverityLabel('issue'),
+        blocker: getSeverityLabel('blocker'),
+    };
+}
+
+/**
+ * Format an ISO timestamp for display, in the VS Code display language
+ */
+export function formatTimestamp(timestamp: string): string {
+    const date = new Date(timestamp);
+    if (isNaN(date.getTime())) {
+        return vscode.l10n.t(UI_STRINGS.INFO.UNKNOWN_DATE);
+    }
+    return date.toLocaleString(vscode.env.language, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Format a zero-based line span for display
+ */
+export function formatLineLabel(startLine: number, endLine: number = startLine): string {
+    return startLine === endLine
+        ? vscode.l10n.t(UI_STRINGS.INFO.LINE_LABEL, { line: startLine + 1 })
+        : vscode.l10n.t(UI_STRINGS.INFO.LINES_LABEL, { start: startLine + 1, end: endLine + 1 });
+}
+
+/**
+ * Format what a note about a whole file or folder is about, for display
+ */
+export function formatSubjectLabel(subject: NoteSubject): string {
+    return vscode.l10n.t(subject === 'folder' ? UI_STRINGS.INFO.WHOLE_FOLDER_LABEL : UI_STRINGS.INFO.WHOLE_FILE_LABEL);
+}
@@ -0,0 +1,166 @@
+/**
+ * Markdown rendering of note bodies for webviews, and sanitizing for hovers
+ *
+ * Only a safe subset is supported: paragraphs, headings, lists, quotes,
+ * fenced code, code spans, emphasis and links. All text is escaped before
+ * any markup is added, so raw HTML in a note is always shown as text.
+ */
+
+import { escapeHtml } from './textUtils';
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+/**
+ * Remove command links from Markdown written by users, so that only the links
+ * added by Bubulle can run commands in a trusted hover
+ */
+export function stripCommandLinks(markdown: string): string {
+    return markdown
+        .replace(/\]\(\s*<?command:[^)]*\)/gi, ']()')
+        .replace(/^(\s*\[[^\]]+\]:\s*)<?command:.*$/gim, '$1#')
+        .replace(/<command:[^>]*>/gi, '');
+}
+
+/**
+ * Render Markdown as sanitized HTML
+ */
+export function renderMarkdown(markdown: string): string {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+
+        const fence = line.match(/^\s*(`{3,}|~{3,})\s*([\w+-]*)/);
+        if (fence) {
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+                code.push(lines[index]);
+                index++;
+            }
+            index++;
+            const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+            blocks.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        if (!line.trim()) {
+            index++;
+            continue;
+        }
+
+        const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+        if (heading) {
+            const level = heading[1].length;
+            blocks.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+            index++;
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            blocks.push('<hr>');
+            index++;
+            continue;
+        }
+
+        if (/^\s*>/.test(line)) {
+            const quote: string[] = [];
+            while (index < lines.length && /^\s*>/.test(lines[index])) {
+                quote.push(lines[index].replace(/^\s*>\s?/, ''));
+                index++;
+            }
+            blocks.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+            continue;
+        }
+
+        const listItem = getListItem(line);
+        if (listItem) {
+            const items: string[] = [];
+            while (index < lines.length) {
+                const item = getListItem(lines[index]);
+                if (item && item.ordered === listItem.ordered) {
+                    items.push(item.text);
+                } else if (items.length > 0 && /^\s{2,}\S/.test(lines[index])) {
+                    // Indented lines continue the previous item
+                    items[items.length - 1] += `\n${lines[index].trim()}`;
+                } else {
+                    break;
+                }
+                index++;
+            }
+            const tag = listItem.ordered ? 'ol' : 'ul';
+            const start = listItem.ordered && listItem.start !== 1 ? ` start="${listItem.start}"` : '';
+            blocks.push(`<${tag}${start}>${items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (index < lines.length && lines[index].trim() && !startsBlock(lines[index])) {
+            paragraph.push(lines[index]);
+            index++;
+        }
+        blocks.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+    }
+
+    return blocks.join('\n');
+}
+
+/**
+ * Read a bullet or numbered list item
+ */
+function getListItem(line: string): { ordered: boolean; start: number; text: string } | undefined {
+    const bullet = line.match(/^\s{0,3}[-*+]\s+(.*)$/);
+    if (bullet) {
+        return { ordered: false, start: 1, text: bullet[1] };
+    }
+    const numbered = line.match(/^\s{0,3}(\d{1,9})[.)]\s+(.*)$/);
+    if (numbered) {
+        return { ordered: true, start: Number(numbered[1]), text: numbered[2] };
+    }
+    return undefined;
+}
+
+/**
+ * Check whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string): boolean {
+    return /^\s*(`{3,}|~{3,}|#{1,6}\s|>)/.test(line) || getListItem(line) !== undefined;
+}
+
+/**
+ * Render code spans, links and emphasis. Code spans and links are set aside
+ * first so that their content is not formatted. Line breaks are kept, like in
+ * GitHub comments.
+ */
+function renderInline(text: string): string {
+    const tokens: string[] = [];
+    const keep = (html: string): string => `\u0000${tokens.push(html) - 1}\u0000`;
+
+    // NUL marks the tokens, so a body holding one can't make a token contain itself
+    let html = text.replace(/\u0000/g, '').replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) =>
+        keep(`<code>${escapeHtml(code.trim())}</code>`)
+    );
+    html = escapeHtml(html);
+
+    html = html.replace(/\[([^\]]+)\]\(\s*((?:[^()\s]|\([^()\s]*\))*)\s*\)/g, (_, label: string, url: string) =>
+        SAFE_LINK.test(url) ? keep(`<a href="${url}">${label}</a>`) : label
+    );
+    html = html.replace(/\bhttps?:\/\/[^\s<\u0000]+[^\s<\u0000.,;:!?)]/g, url => keep(`<a href="${url}">${url}</a>`));
+
+    html = html
+        .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<strong><em>$1</em></strong>')
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/__(?=\S)([\s\S]*?\S)__/g, '<strong>$1</strong>')
+        .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+        .replace(/\b_(?=\S)([\s\S]*?\S)_\b/g, '<em>$1</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+        .replace(/\n/g, '<br>');
+
+    // Links may hold code spans, so tokens are restored until none is left
+    while (/\u0000\d+\u0000/.test(html)) {
+        html = html.replace(/\u0000(\d+)\u0000/g, (_, tokenIndex: string) => tokens[Number(tokenIndex)]);
+    }
+    return html;
+}
@@ -0,0 +1,45 @@
+/**
+ * Helpers for moving between notes in workspace order
+ */
+
+import { Note, NoteNavigationDirection } from '../types';
+
+/**
+ * Compare two positions in workspace order: by file path, then by line
+ */
+export function comparePositions(filePathA: string, lineA: number, filePathB: string, lineB: number): number {
+    const fileCompare = filePathA.localeCompare(filePathB);
+    return fileCompare !== 0 ? fileCompare : lineA - lineB;
+}
+
+/**
+ * Compare two notes in workspace order
+ */
+export function compareNotes(a: Note, b: Note): number {
+    return comparePositions(a.filePath, a.line, b.filePath, b.line);
+}
+
+/**
+ * Find the note after or before a position among notes sorted in workspace
+ * order, wrapping around at the end or the start of the list
+ */
+export function findAdjacentNote(
+    sortedNotes: Note[],
+    filePath: string | undefined,
+    line: number,
+    direction: NoteNavigationDirection
+): Note | undefined {
+    if (sortedNotes.length === 0) {
+        return undefined;
+    }
+    if (filePath === undefined) {
+        return direction === 'next' ? sortedNotes[0] : sortedNotes[sortedNotes.length - 1];
+    }
+
+    if (direction === 'next') {
+        return sortedNotes.find(note => comparePositions(note.filePath, note.line, filePath, line) > 0) ?? sortedNotes[0];
+    }
+
+    const before = sortedNotes.filter(note => comparePositions(note.filePath, note.line, filePath, line) < 0);
+    return before[before.length - 1] ?? sortedNotes[sortedNotes.length - 1];
+}
@@ -0,0 +1,72 @@
+/**
+ * Note and comment helpers for the Bubulle extension
+ */
+
+import * as crypto from 'crypto';
+import { Note, NoteComment } from '../types';
+import { getExtensionConfig } from './fileUtils';
+import { formatLineLabel, formatSubjectLabel } from './localeUtils';
+
+/**
+ * Generate a stable identifier for a note or a comment
+ */
+export function generateId(): string {
+    return crypto.randomUUID();
+}
+
+/**
+ * Create a comment written by the current user
+ */
+export function createComment(body: string): NoteComment {
+    return {
+        id: generateId(),
+        author: getExtensionConfig().author,
+        body: body.trim(),
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Get the text that opened the thread, used for previews
+ */
+export function getNoteText(note: Note): string {
+    return note.comments[0]?.body ?? '';
+}
+
+/**
+ * Check whether the current user may change a note. A draft belongs to its
+ * author until their review is finished.
+ */
+export function canEditNote(note: Note): boolean {
+    return !note.draft || note.comments[0]?.author === getExtensionConfig().author;
+}
+
+/**
+ * Check whether a note is about lines of code rather than a whole file or folder
+ */
+export function isLineNote(note: Note): boolean {
+    return !note.subject;
+}
+
+/**
+ * Get the line or lines a note is about, for display
+ */
+export function getNoteLocationLabel(note: Note): string {
+    return note.subject
+        ? formatSubjectLabel(note.subject)
+        : formatLineLabel(note.range?.startLine ?? note.line, note.line);
+}
+
+/**
+ * Group notes by file path
+ */
+export function groupNotesByFile(notes: Note[]): Record<string, Note[]> {
+    return notes.reduce((groups, note) => {
+        const filePath = note.filePath;
+        if (!groups[filePath]) {
+            groups[filePath] = [];
+        }
+        groups[filePath].push(note);
+        return groups;
+    }, {} as Record<string, Note[]>);
+}
@@ -0,0 +1,46 @@
+/**
+ * Helpers for code suggestions carried by notes
+ */
+
+import { Note } from '../types';
+
+/**
+ * Check whether a note has a suggestion that was not applied yet
+ */
+export function hasPendingSuggestion(note: Note): boolean {
+    return note.suggestion !== undefined && !note.suggestion.appliedAt;
+}
+
+/**
+ * Format a suggestion as the lines of a unified diff. Lines shared at the
+ * start and end of both versions are kept as context.
+ */
+export function formatSuggestionDiff(original: string, replacement: string): string[] {
+    const originalLines = original.split(/\r?\n/);
+    const replacementLines = replacement.split(/\r?\n/);
+
+    let prefix = 0;
+    while (
+        prefix < originalLines.length &&
+        prefix < replacementLines.length &&
+        originalLines[prefix] === replacementLines[prefix]
+    ) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < originalLines.length - prefix &&
+        suffix < replacementLines.length - prefix &&
+        originalLines[originalLines.length - 1 - suffix] === replacementLines[replacementLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    return [
+        ...originalLines.slice(0, prefix).map(line => `  ${line}`),
+        ...originalLines.slice(prefix, originalLines.length - suffix).map(line => `- ${line}`),
+        ...replacementLines.slice(prefix, replacementLines.length - suffix).map(line => `+ ${line}`),
+        ...originalLines.slice(originalLines.length - suffix).map(line => `  ${line}`),
+    ];
+}
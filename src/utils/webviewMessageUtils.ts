@@ -0,0 +1,95 @@
+/**
+ * Validation of the messages posted by webviews, and the nonces of their
+ * Content Security Policy
+ */
+
+import * as crypto from 'crypto';
+import { WebviewCommand, WebviewMessage } from '../types';
+import { NOTE_STATUS_LABELS } from '../constants';
+import { isNoteSeverity } from './categoryUtils';
+
+type WebviewMessageField = Exclude<keyof WebviewMessage, 'command'>;
+
+interface WebviewMessageSchema {
+    required?: WebviewMessageField[];
+    optional?: WebviewMessageField[];
+}
+
+/**
+ * Check of the value of each message field
+ */
+const FIELD_VALIDATORS: Record<WebviewMessageField, (value: unknown) => boolean> = {
+    text: value => typeof value === 'string',
+    noteId: value => typeof value === 'string' && value.length > 0,
+    commentId: value => typeof value === 'string' && value.length > 0,
+    status: value => typeof value === 'string' && Object.keys(NOTE_STATUS_LABELS).includes(value),
+    suggestion: value => typeof value === 'string',
+    severity: isNoteSeverity,
+    tags: value => typeof value === 'string',
+};
+
+/**
+ * Fields of each command; other fields are dropped
+ */
+export const WEBVIEW_MESSAGE_SCHEMAS: Record<WebviewCommand, WebviewMessageSchema> = {
+    save: { required: ['text'], optional: ['suggestion', 'severity', 'tags'] },
+    cancel: {},
+    renderPreview: { required: ['text'] },
+    reply: { required: ['text'] },
+    editComment: { required: ['commentId', 'text'] },
+    deleteComment: { required: ['commentId'] },
+    applySuggestion: {},
+    previewSuggestion: {},
+    editSuggestion: { required: ['suggestion'] },
+    close: {},
+    openFile: { required: ['noteId'] },
+    deleteNote: { required: ['noteId'] },
+    setStatus: { required: ['noteId', 'status'] },
+};
+
+/**
+ * Check a message posted by a webview against the schema of its command.
+ * Returns undefined when the command is not one the webview may send or
+ * when a field is missing or has the wrong type.
+ */
+export function parseWebviewMessage(
+    message: unknown,
+    allowedCommands: readonly WebviewCommand[]
+): WebviewMessage | undefined {
+    if (typeof message !== 'object' || message === null) {
+        return undefined;
+    }
+
+    const received = message as Record<string, unknown>;
+    const command = allowedCommands.find(allowed => allowed === received.command);
+    if (!command) {
+        return undefined;
+    }
+
+    const schema = WEBVIEW_MESSAGE_SCHEMAS[command];
+    const parsed: Record<string, unknown> = { command };
+    for (const field of schema.required ?? []) {
+        if (!FIELD_VALIDATORS[field](received[field])) {
+            return undefined;
+        }
+        parsed[field] = received[field];
+    }
+    for (const field of schema.optional ?? []) {
+        if (received[field] === undefined || received[field] === null) {
+            continue;
+        }
+        if (!FIELD_VALIDATORS[field](received[field])) {
+            return undefined;
+        }
+        parsed[field] = received[field];
+    }
+
+    return parsed as unknown as WebviewMessage;
+}
+
+/**
+ * Create the nonce allowing the scripts and styles of one webview page
+ */
+export function createNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
@@ -0,0 +1,213 @@
+/**
+ * Source Control view listing the notes on the files of the current change set
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ChangesTreeActions, ChangesTreeNode, Note } from '../types';
+import { COMMANDS, DEFAULT_CONFIG, UI_STRINGS, VIEWS } from '../constants';
+import { NotesStorage } from '../services/NotesStorage';
+import { BranchService } from '../services/BranchService';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+import { getSeverityLabel, getStatusLabel } from '../utils/localeUtils';
+import { GitFileChange, getChangedFiles } from '../utils/gitUtils';
+
+export class ChangesTreeProvider implements vscode.TreeDataProvider<ChangesTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<ChangesTreeNode | undefined>();
+    /** Files changed in the repositories of the workspace, read again after a reload */
+    private changes?: Promise<GitFileChange[]>;
+    private reloadTimeout?: NodeJS.Timeout;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage,
+        private branches: BranchService,
+        private actions: ChangesTreeActions
+    ) {
+        const treeView = vscode.window.createTreeView(VIEWS.CHANGES_TREE, {
+            treeDataProvider: this,
+            showCollapseAll: true,
+        });
+
+        // The change set moves with saves, file operations, checkouts and work done outside VS Code.
+        // Bursts of these events run git once.
+        const reload = () => this.scheduleReload();
+        this.registerCommands();
+        this.context.subscriptions.push(
+            this.changeEmitter,
+            treeView,
+            { dispose: () => clearTimeout(this.reloadTimeout) },
+            this.notesStorage.onDidChangeNotes(() => this.refresh()),
+            this.branches.onDidChangeBranch(reload),
+            vscode.workspace.onDidSaveTextDocument(reload),
+            vscode.workspace.onDidCreateFiles(reload),
+            vscode.workspace.onDidDeleteFiles(reload),
+            vscode.workspace.onDidRenameFiles(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.window.onDidChangeWindowState(state => {
+                if (state.focused) {
+                    reload();
+                }
+            })
+        );
+    }
+
+    /**
+     * Re-render the tree with the known change set
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Read the change set again, then re-render the tree
+     */
+    public reloadChanges(): void {
+        clearTimeout(this.reloadTimeout);
+        this.changes = undefined;
+        this.refresh();
+    }
+
+    /**
+     * Read the change set again after a short delay, restarted by every new request
+     */
+    private scheduleReload(): void {
+        clearTimeout(this.reloadTimeout);
+        this.reloadTimeout = setTimeout(() => this.reloadChanges(), DEFAULT_CONFIG.CHANGES_RELOAD_DELAY);
+    }
+
+    /**
+     * Get the tree item shown for an element
+     */
+    public getTreeItem(element: ChangesTreeNode): vscode.TreeItem {
+        switch (element.type) {
+            case 'file':
+                return this.getFileItem(element.filePath, element.status, element.notes);
+            case 'note':
+                return this.getNoteItem(element.note);
+        }
+    }
+
+    /**
+     * Get the notes of a changed file, or the changed files with notes at the root
+     */
+    public async getChildren(element?: ChangesTreeNode): Promise<ChangesTreeNode[]> {
+        try {
+            if (!element) {
+                return await this.getChangedFilesWithNotes();
+            }
+            if (element.type === 'file') {
+                return element.notes.map(note => ({ type: 'note', note }));
+            }
+            return [];
+        } catch (error) {
+            console.error('[BUBULLE] Error building notes on changes tree:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Get the changed files that have notes shown on the current branch
+     */
+    private async getChangedFilesWithNotes(): Promise<ChangesTreeNode[]> {
+        if (!this.changes) {
+            this.changes = this.readChanges();
+        }
+
+        const changes = await this.changes;
+        const statuses = new Map(changes.map(change => [path.resolve(change.filePath), change.status]));
+        const notesByFile = new Map<string, Note[]>();
+        for (const note of this.notesStorage.getAllNotesSorted()) {
+            const filePath = path.resolve(note.filePath);
+            if (!statuses.has(filePath) || !this.branches.isNoteVisible(note)) {
+                continue;
+            }
+            if (!notesByFile.has(filePath)) {
+                notesByFile.set(filePath, []);
+            }
+            notesByFile.get(filePath)!.push(note);
+        }
+
+        return Array.from(notesByFile.entries()).map(([filePath, notes]) => ({
+            type: 'file',
+            filePath,
+            status: statuses.get(filePath)!,
+            notes,
+        }));
+    }
+
+    /**
+     * Read the changed files of the repository of each workspace folder
+     */
+    private async readChanges(): Promise<GitFileChange[]> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const folderChanges = await Promise.all(folders.map(folder => getChangedFiles(folder.uri.fsPath)));
+        const changes = new Map<string, GitFileChange>();
+        for (const change of folderChanges.flatMap(folderChange => folderChange ?? [])) {
+            changes.set(path.resolve(change.filePath), change);
+        }
+        return Array.from(changes.values());
+    }
+
+    /**
+     * Build the item of a changed file, with its git status
+     */
+    private getFileItem(filePath: string, status: string, notes: Note[]): vscode.TreeItem {
+        const item = new vscode.TreeItem(vscode.Uri.file(filePath), vscode.TreeItemCollapsibleState.Expanded);
+        const directory = path.dirname(getRelativeDisplayPath(filePath));
+        item.description = [status, directory !== '.' ? directory : undefined, `${notes.length}`]
+            .filter(Boolean)
+            .join(' • ');
+        item.tooltip = filePath;
+        item.contextValue = 'bubulleChangedFile';
+        return item;
+    }
+
+    /**
+     * Build the item of a note, opening it at its line when clicked
+     */
+    private getNoteItem(note: Note): vscode.TreeItem {
+        const item = new vscode.TreeItem(truncateText(getNoteText(note)), vscode.TreeItemCollapsibleState.None);
+        item.description = [
+            getNoteLocationLabel(note),
+            note.severity !== 'info' ? getSeverityLabel(note.severity) : undefined,
+            note.status !== 'open' ? getStatusLabel(note.status) : undefined,
+        ].filter(Boolean).join(' • ');
+        item.iconPath = new vscode.ThemeIcon(note.status === 'open' ? 'comment' : 'pass');
+        item.tooltip = new vscode.MarkdownString(stripCommandLinks(getNoteText(note)));
+        item.contextValue = 'bubulleChangedNote';
+        item.command = {
+            command: COMMANDS.CHANGES_OPEN_NOTE,
+            title: vscode.l10n.t('Open Note'),
+            arguments: [{ type: 'note', note }],
+        };
+        return item;
+    }
+
+    /**
+     * Register the open and refresh actions of the view
+     */
+    private registerCommands(): void {
+        const openNote = vscode.commands.registerCommand(
+            COMMANDS.CHANGES_OPEN_NOTE,
+            (node: ChangesTreeNode) => {
+                const note = node?.type === 'note' ? this.notesStorage.getNoteById(node.note.id) : undefined;
+                if (!note) {
+                    vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+                    this.refresh();
+                    return;
+                }
+                this.actions.onOpenNote(note);
+            }
+        );
+
+        const refresh = vscode.commands.registerCommand(COMMANDS.CHANGES_REFRESH, () => this.reloadChanges());
+
+        this.context.subscriptions.push(openNote, refresh);
+    }
+}
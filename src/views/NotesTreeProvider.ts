@@ -0,0 +1,281 @@
+/**
+ * Sidebar tree view listing notes by workspace folder and file
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Note, NotesTreeActions, NotesTreeNode } from '../types';
+import { COMMANDS, UI_STRINGS, VIEWS } from '../constants';
+import { NotesStorage } from '../services/NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { formatString, truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+import { getStatusLabel, getSeverityLabel, formatTimestamp } from '../utils/localeUtils';
+
+export class NotesTreeProvider implements vscode.TreeDataProvider<NotesTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<NotesTreeNode | undefined>();
+    private readonly treeView: vscode.TreeView<NotesTreeNode>;
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage,
+        private actions: NotesTreeActions
+    ) {
+        this.treeView = vscode.window.createTreeView(VIEWS.NOTES_TREE, {
+            treeDataProvider: this,
+            showCollapseAll: true,
+        });
+
+        this.registerCommands();
+        this.context.subscriptions.push(
+            this.changeEmitter,
+            this.treeView,
+            this.notesStorage.onDidChangeNotes(() => this.refresh())
+        );
+        this.updateBadge();
+    }
+
+    /**
+     * Re-render the whole tree and its badge
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+        this.updateBadge();
+    }
+
+    /**
+     * Get the tree item shown for an element
+     */
+    public getTreeItem(element: NotesTreeNode): vscode.TreeItem {
+        switch (element.type) {
+            case 'folder':
+                return this.getFolderItem(element.label, element.notes);
+            case 'file':
+                return this.getFileItem(element.filePath, element.notes);
+            case 'note':
+                return this.getNoteItem(element.note);
+        }
+    }
+
+    /**
+     * Get the children of an element, or the workspace folders at the root
+     */
+    public getChildren(element?: NotesTreeNode): NotesTreeNode[] {
+        try {
+            if (!element) {
+                return this.groupNotesByFolder(this.notesStorage.getAllNotesSorted());
+            }
+
+            switch (element.type) {
+                case 'folder':
+                    return this.groupNotesByFile(element.notes);
+                case 'file':
+                    return element.notes.map(note => ({ type: 'note', note }));
+                case 'note':
+                    return [];
+            }
+        } catch (error) {
+            console.error('[BUBULLE] Error building notes tree:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Group notes by workspace folder, keeping files outside the workspace last
+     */
+    private groupNotesByFolder(notes: Note[]): NotesTreeNode[] {
+        const groups = new Map<string, Note[]>();
+        const outsideNotes: Note[] = [];
+
+        for (const note of notes) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(note.filePath));
+            if (!folder) {
+                outsideNotes.push(note);
+                continue;
+            }
+            if (!groups.has(folder.name)) {
+                groups.set(folder.name, []);
+            }
+            groups.get(folder.name)!.push(note);
+        }
+
+        const nodes: NotesTreeNode[] = Array.from(groups.entries()).map(([label, folderNotes]) => ({
+            type: 'folder',
+            label,
+            notes: folderNotes,
+        }));
+
+        if (outsideNotes.length > 0) {
+            nodes.push({ type: 'folder', label: vscode.l10n.t(UI_STRINGS.INFO.OUTSIDE_WORKSPACE), notes: outsideNotes });
+        }
+        return nodes;
+    }
+
+    /**
+     * Group the notes of a folder by file
+     */
+    private groupNotesByFile(notes: Note[]): NotesTreeNode[] {
+        const groups = new Map<string, Note[]>();
+
+        for (const note of notes) {
+            if (!groups.has(note.filePath)) {
+                groups.set(note.filePath, []);
+            }
+            groups.get(note.filePath)!.push(note);
+        }
+
+        return Array.from(groups.entries()).map(([filePath, fileNotes]) => ({
+            type: 'file',
+            filePath,
+            notes: fileNotes,
+        }));
+    }
+
+    /**
+     * Build the item of a workspace folder
+     */
+    private getFolderItem(label: string, notes: Note[]): vscode.TreeItem {
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon('root-folder');
+        item.description = `${notes.length}`;
+        item.contextValue = 'bubulleFolder';
+        return item;
+    }
+
+    /**
+     * Build the item of a file, or of a folder with notes about it, using the
+     * icons of the current theme
+     */
+    private getFileItem(filePath: string, notes: Note[]): vscode.TreeItem {
+        const item = new vscode.TreeItem(vscode.Uri.file(filePath), vscode.TreeItemCollapsibleState.Expanded);
+        if (notes[0]?.subject === 'folder') {
+            item.iconPath = vscode.ThemeIcon.Folder;
+        }
+        const directory = path.dirname(getRelativeDisplayPath(filePath));
+        item.description = directory !== '.' ? `${directory} • ${notes.length}` : `${notes.length}`;
+        item.tooltip = filePath;
+        item.contextValue = 'bubulleFile';
+        return item;
+    }
+
+    /**
+     * Build the item of a note, opening it at its line when clicked
+     */
+    private getNoteItem(note: Note): vscode.TreeItem {
+        const firstComment = note.comments[0];
+        const item = new vscode.TreeItem(truncateText(getNoteText(note)), vscode.TreeItemCollapsibleState.None);
+        const replies = note.comments.length - 1;
+
+        item.description = [
+            getNoteLocationLabel(note),
+            note.draft ? vscode.l10n.t(UI_STRINGS.INFO.DRAFT_LABEL) : undefined,
+            note.branch ? vscode.l10n.t(UI_STRINGS.INFO.BRANCH_LABEL, { branch: note.branch }) : undefined,
+            note.severity !== 'info' ? getSeverityLabel(note.severity) : undefined,
+            ...(note.tags ?? []).map(tag => `#${tag}`),
+            firstComment?.author,
+            replies > 0 ? vscode.l10n.t('{count} reply(ies)', { count: replies }) : undefined,
+            note.status !== 'open' ? getStatusLabel(note.status) : undefined,
+        ].filter(Boolean).join(' • ');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(
+            `**${getStatusLabel(note.status)}** • ${getSeverityLabel(note.severity)} • ${getNoteLocationLabel(note)}\n\n`
+        );
+        if (note.outdated) {
+            tooltip.appendMarkdown(`${vscode.l10n.t(UI_STRINGS.INFO.NOTE_OUTDATED)}\n\n`);
+        }
+        if (firstComment) {
+            tooltip.appendText(`${firstComment.author} • ${formatTimestamp(firstComment.createdAt)}\n\n`);
+        }
+        tooltip.appendMarkdown(stripCommandLinks(getNoteText(note)));
+        item.tooltip = tooltip;
+
+        item.iconPath = this.getNoteIcon(note);
+        item.contextValue = note.status === 'open' ? 'bubulleNote.open' : 'bubulleNote.closed';
+        item.command = {
+            command: COMMANDS.TREE_OPEN_NOTE,
+            title: vscode.l10n.t('Open Note'),
+            arguments: [{ type: 'note', note }],
+        };
+        return item;
+    }
+
+    /**
+     * Get the icon matching the status of a note
+     */
+    private getNoteIcon(note: Note): vscode.ThemeIcon {
+        if (note.outdated) {
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        }
+        switch (note.status) {
+            case 'resolved':
+                return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+            case 'wontFix':
+                return new vscode.ThemeIcon('circle-slash', new vscode.ThemeColor('disabledForeground'));
+            default:
+                return new vscode.ThemeIcon('comment');
+        }
+    }
+
+    /**
+     * Show the number of open notes on the view
+     */
+    private updateBadge(): void {
+        try {
+            const count = this.notesStorage.getAllNotesSorted().filter(note => note.status === 'open').length;
+            this.treeView.badge = count > 0
+                ? { value: count, tooltip: vscode.l10n.t(UI_STRINGS.INFO.OPEN_NOTES_COUNT, { count }) }
+                : undefined;
+        } catch (error) {
+            console.error('[BUBULLE] Error updating notes badge:', error);
+        }
+    }
+
+    /**
+     * Register the inline actions of note items
+     */
+    private registerCommands(): void {
+        const openNote = vscode.commands.registerCommand(
+            COMMANDS.TREE_OPEN_NOTE,
+            (node: NotesTreeNode) => this.withNote(node, note => this.actions.onOpenNote(note))
+        );
+
+        const editNote = vscode.commands.registerCommand(
+            COMMANDS.TREE_EDIT_NOTE,
+            (node: NotesTreeNode) => this.withNote(node, note => this.actions.onEditNote(note))
+        );
+
+        const deleteNote = vscode.commands.registerCommand(
+            COMMANDS.TREE_DELETE_NOTE,
+            (node: NotesTreeNode) => this.withNote(node, note => this.actions.onDeleteNote(note))
+        );
+
+        const resolveNote = vscode.commands.registerCommand(
+            COMMANDS.TREE_RESOLVE_NOTE,
+            (node: NotesTreeNode) => this.withNote(node, note => this.actions.onSetStatus(note.id, 'resolved'))
+        );
+
+        const reopenNote = vscode.commands.registerCommand(
+            COMMANDS.TREE_REOPEN_NOTE,
+            (node: NotesTreeNode) => this.withNote(node, note => this.actions.onSetStatus(note.id, 'open'))
+        );
+
+        this.context.subscriptions.push(openNote, editNote, deleteNote, resolveNote, reopenNote);
+    }
+
+    /**
+     * Run an action on the latest version of the note of a tree element
+     */
+    private withNote(node: NotesTreeNode | undefined, action: (note: Note) => void): void {
+        const note = node?.type === 'note' ? this.notesStorage.getNoteById(node.note.id) : undefined;
+        if (!note) {
+            vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+            this.refresh();
+            return;
+        }
+        action(note);
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Sidebar tree view listing finished reviews and their notes
+ */
+
+import * as vscode from 'vscode';
+import { Note, NoteReview, ReviewsTreeActions, ReviewsTreeNode } from '../types';
+import { COMMANDS, REVIEW_VERDICT_ICONS, UI_STRINGS, VIEWS } from '../constants';
+import { NotesStorage } from '../services/NotesStorage';
+import { getRelativeDisplayPath } from '../utils/fileUtils';
+import { truncateText } from '../utils/textUtils';
+import { getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { stripCommandLinks } from '../utils/markdownUtils';
+import { getVerdictLabel, formatTimestamp } from '../utils/localeUtils';
+
+export class ReviewsTreeProvider implements vscode.TreeDataProvider<ReviewsTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<ReviewsTreeNode | undefined>();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private notesStorage: NotesStorage,
+        private actions: ReviewsTreeActions
+    ) {
+        const treeView = vscode.window.createTreeView(VIEWS.REVIEWS_TREE, {
+            treeDataProvider: this,
+            showCollapseAll: true,
+        });
+
+        this.registerCommands();
+        this.context.subscriptions.push(
+            this.changeEmitter,
+            treeView,
+            this.notesStorage.onDidChangeReviews(() => this.refresh()),
+            this.notesStorage.onDidChangeNotes(() => this.refresh())
+        );
+    }
+
+    /**
+     * Re-render the whole tree
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Get the tree item shown for an element
+     */
+    public getTreeItem(element: ReviewsTreeNode): vscode.TreeItem {
+        switch (element.type) {
+            case 'review':
+                return this.getReviewItem(element.review);
+            case 'note':
+                return this.getNoteItem(element.note);
+        }
+    }
+
+    /**
+     * Get the notes of a review, or the reviews at the root
+     */
+    public getChildren(element?: ReviewsTreeNode): ReviewsTreeNode[] {
+        try {
+            if (!element) {
+                return this.notesStorage.getReviews().map(review => ({ type: 'review', review }));
+            }
+            if (element.type === 'review') {
+                return this.notesStorage.getReviewNotes(element.review.id).map(note => ({ type: 'note', note }));
+            }
+            return [];
+        } catch (error) {
+            console.error('[BUBULLE] Error building reviews tree:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Build the item of a review, with its verdict, author, date and summary
+     */
+    private getReviewItem(review: NoteReview): vscode.TreeItem {
+        const noteCount = this.notesStorage.getReviewNotes(review.id).length;
+        const item = new vscode.TreeItem(
+            getVerdictLabel(review.verdict),
+            noteCount > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+
+        item.description = [
+            review.author,
+            formatTimestamp(review.submittedAt),
+            vscode.l10n.t(UI_STRINGS.INFO.REVIEW_NOTES_COUNT, { count: noteCount }),
+        ].join(' • ');
+        item.iconPath = new vscode.ThemeIcon(REVIEW_VERDICT_ICONS[review.verdict]);
+        item.contextValue = 'bubulleReview';
+
+        if (review.summary) {
+            const tooltip = new vscode.MarkdownString();
+            tooltip.appendText(`${review.author} • ${formatTimestamp(review.submittedAt)}\n\n`);
+            tooltip.appendMarkdown(stripCommandLinks(review.summary));
+            item.tooltip = tooltip;
+        }
+        return item;
+    }
+
+    /**
+     * Build the item of a note of a review, opening the note when clicked
+     */
+    private getNoteItem(note: Note): vscode.TreeItem {
+        const item = new vscode.TreeItem(truncateText(getNoteText(note)), vscode.TreeItemCollapsibleState.None);
+        item.description = `${getRelativeDisplayPath(note.filePath)} • ${getNoteLocationLabel(note)}`;
+        item.iconPath = new vscode.ThemeIcon('comment');
+        item.command = {
+            command: COMMANDS.REVIEWS_OPEN_NOTE,
+            title: vscode.l10n.t('Open Note'),
+            arguments: [{ type: 'note', note }],
+        };
+        return item;
+    }
+
+    /**
+     * Register the actions of review and note items
+     */
+    private registerCommands(): void {
+        const openNote = vscode.commands.registerCommand(
+            COMMANDS.REVIEWS_OPEN_NOTE,
+            (node: ReviewsTreeNode) => {
+                const note = node?.type === 'note' ? this.notesStorage.getNoteById(node.note.id) : undefined;
+                if (!note) {
+                    vscode.window.showWarningMessage(vscode.l10n.t(UI_STRINGS.INFO.NOTE_NOT_FOUND));
+                    this.refresh();
+                    return;
+                }
+                this.actions.onOpenNote(note);
+            }
+        );
+
+        const exportReview = vscode.commands.registerCommand(
+            COMMANDS.REVIEWS_EXPORT,
+            (node: ReviewsTreeNode) => {
+                if (node?.type === 'review') {
+                    this.actions.onExportReview(node.review);
+                }
+            }
+        );
+
+        this.context.subscriptions.push(openNote, exportReview);
+    }
+}
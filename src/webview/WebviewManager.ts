@@ -4,39 +4,87 @@
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Note, WebviewMessage } from '../types';
+import {
+    Note,
+    NoteComment,
+    NoteEditorResult,
+    NoteRange,
+    NoteSubject,
+    NotesListActions,
+    NotesListItem,
+    ThreadActions,
+    WebviewCommand,
+    WebviewMessage
+} from '../types';
 import { WEBVIEW_TYPES, DEFAULT_CONFIG, UI_STRINGS } from '../constants';
 import { getRelativeDisplayPath } from '../utils/fileUtils';
 import { escapeHtml } from '../utils/textUtils';
+import { canEditNote, getNoteLocationLabel, getNoteText } from '../utils/noteUtils';
+import { formatSuggestionDiff, hasPendingSuggestion } from '../utils/suggestionUtils';
+import { NOTE_SEVERITIES, parseTags } from '../utils/categoryUtils';
+import { renderMarkdown } from '../utils/markdownUtils';
+import { createNonce, parseWebviewMessage } from '../utils/webviewMessageUtils';
+import { getSeverityLabel, getSeverityLabels, getStatusLabels, formatTimestamp, formatLineLabel, formatSubjectLabel } from '../utils/localeUtils';
+
+const WEBVIEW_SCRIPTS_PATH = ['resources', 'webview'];
+
+interface WebviewPage {
+    styles: string;
+    body: string;
+    /** Script file in resources/webview */
+    script: string;
+    /** Data read by the script, embedded as JSON */
+    data: unknown;
+}
 
 export class WebviewManager {
     /**
-     * Show add note editor
+     * Show add note editor. When the code of the note is given, the note can
+     * propose a replacement for it, pre-filled with that code. With a subject,
+     * the note is about the whole file or folder.
      */
-    public static async showAddNoteEditor(filePath: string, line: number): Promise<string | undefined> {
+    public static async showAddNoteEditor(
+        extensionUri: vscode.Uri,
+        filePath: string,
+        line: number,
+        range?: NoteRange,
+        code?: string,
+        subject?: NoteSubject
+    ): Promise<NoteEditorResult | undefined> {
         const fileName = getRelativeDisplayPath(filePath);
+        const lineLabel = subject ? formatSubjectLabel(subject) : formatLineLabel(range?.startLine ?? line, line);
 
         return new Promise(resolve => {
             const panel = vscode.window.createWebviewPanel(
                 WEBVIEW_TYPES.ADD_NOTE,
-                `Nouvelle note - ${fileName} (Ligne ${line + 1})`,
+                vscode.l10n.t('New note - {fileName} ({line})', { fileName, line: lineLabel }),
                 vscode.ViewColumn.Beside,
                 {
-                    enableScripts: true,
+                    ...this.getWebviewOptions(extensionUri),
                     retainContextWhenHidden: false,
                 }
             );
 
-            panel.webview.html = this.getAddNoteWebviewContent(fileName, line);
+            panel.webview.html = this.getAddNoteWebviewContent(panel.webview, extensionUri, fileName, lineLabel, code);
 
-            panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+            this.onValidMessage(panel, ['save', 'renderPreview', 'cancel'], message => {
                 console.log(`[BUBULLE] Webview message received:`, message);
                 switch (message.command) {
                     case 'save':
                         console.log(`[BUBULLE] Save command received with text: "${message.text}"`);
-                        resolve(message.text);
+                        resolve({
+                            text: message.text!,
+                            suggestion: message.suggestion,
+                            labels: {
+                                severity: message.severity ?? DEFAULT_CONFIG.SEVERITY,
+                                tags: parseTags(message.tags ?? ''),
+                            },
+                        });
                         panel.dispose();
                         break;
+                    case 'renderPreview':
+                        this.postPreview(panel, message.text);
+                        break;
                     case 'cancel':
                         console.log(`[BUBULLE] Cancel command received`);
                         resolve(undefined);
@@ -52,34 +100,34 @@ export class WebviewManager {
     }
 
     /**
-     * Show edit note dialog
+     * Show an editor for replying to a note
      */
-    public static async showEditNoteDialog(note: Note): Promise<string | undefined> {
+    public static async showReplyEditor(extensionUri: vscode.Uri, note: Note): Promise<string | undefined> {
         const fileName = getRelativeDisplayPath(note.filePath);
 
         return new Promise(resolve => {
             const panel = vscode.window.createWebviewPanel(
                 WEBVIEW_TYPES.EDIT_NOTE,
-                `Modifier la note - ${fileName} (Ligne ${note.line + 1})`,
+                vscode.l10n.t('Reply - {fileName} ({line})', { fileName, line: getNoteLocationLabel(note) }),
                 vscode.ViewColumn.Beside,
                 {
-                    enableScripts: true,
+                    ...this.getWebviewOptions(extensionUri),
                     retainContextWhenHidden: false,
                 }
             );
 
-            panel.webview.html = this.getEditNoteWebviewContent(note);
+            panel.webview.html = this.getReplyWebviewContent(panel.webview, extensionUri, note);
 
-            panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
-                console.log(`[BUBULLE] Edit webview message received:`, message);
+            this.onValidMessage(panel, ['save', 'renderPreview', 'cancel'], message => {
                 switch (message.command) {
                     case 'save':
-                        console.log(`[BUBULLE] Edit save command received with text: "${message.text}"`);
                         resolve(message.text?.trim());
                         panel.dispose();
                         break;
+                    case 'renderPreview':
+                        this.postPreview(panel, message.text);
+                        break;
                     case 'cancel':
-                        console.log(`[BUBULLE] Edit cancel command received`);
                         resolve(undefined);
                         panel.dispose();
                         break;
@@ -93,203 +141,551 @@ export class WebviewManager {
     }
 
     /**
-     * Show all notes in a webview
+     * Send the rendered Markdown of a note being written to the preview tab of its editor
+     */
+    private static postPreview(panel: vscode.WebviewPanel, text = ''): void {
+        panel.webview.postMessage({ command: 'preview', html: renderMarkdown(text) });
+    }
+
+    /**
+     * Show the whole thread of a note, with reply, edit and delete actions
+     */
+    public static showThreadDialog(extensionUri: vscode.Uri, note: Note, actions: ThreadActions): vscode.WebviewPanel {
+        const fileName = getRelativeDisplayPath(note.filePath);
+        const panel = vscode.window.createWebviewPanel(
+            WEBVIEW_TYPES.EDIT_NOTE,
+            vscode.l10n.t('Discussion - {fileName} ({line})', { fileName, line: getNoteLocationLabel(note) }),
+            vscode.ViewColumn.Beside,
+            {
+                ...this.getWebviewOptions(extensionUri),
+                retainContextWhenHidden: false,
+            }
+        );
+
+        panel.webview.html = this.getThreadWebviewContent(panel.webview, extensionUri, note);
+
+        // Drafts of another reviewer can only be read
+        const threadCommands: WebviewCommand[] = canEditNote(note)
+            ? ['reply', 'editComment', 'deleteComment', 'applySuggestion', 'previewSuggestion', 'editSuggestion', 'close']
+            : ['previewSuggestion', 'close'];
+        this.onValidMessage(panel, threadCommands, async message => {
+            console.log(`[BUBULLE] Thread webview message received:`, message);
+            let updatedNote: Note | undefined = note;
+
+            switch (message.command) {
+                case 'reply':
+                    if (message.text!.trim()) {
+                        updatedNote = await actions.onReply(note.id, message.text!);
+                    }
+                    break;
+                case 'editComment':
+                    if (message.text!.trim()) {
+                        updatedNote = await actions.onEditComment(note.id, message.commentId!, message.text!);
+                    }
+                    break;
+                case 'deleteComment':
+                    updatedNote = await actions.onDeleteComment(note.id, message.commentId!);
+                    break;
+                case 'applySuggestion':
+                    updatedNote = await actions.onApplySuggestion(note.id);
+                    break;
+                case 'previewSuggestion':
+                    actions.onPreviewSuggestion(note.id);
+                    return;
+                case 'editSuggestion':
+                    updatedNote = await actions.onEditSuggestion(note.id, message.suggestion!);
+                    break;
+                case 'close':
+                    panel.dispose();
+                    return;
+            }
+
+            if (!updatedNote) {
+                panel.dispose();
+                return;
+            }
+
+            note = updatedNote;
+            panel.webview.html = this.getThreadWebviewContent(panel.webview, extensionUri, note);
+        });
+
+        return panel;
+    }
+
+    /**
+     * Show all notes in a webview, optionally filtered to some files
      */
     public static showAllNotesWebview(
-        notes: Note[], 
-        onOpenFile: (filePath: string, line: number) => void,
-        onDeleteNote: (filePath: string, line: number) => void
+        extensionUri: vscode.Uri,
+        notes: Note[],
+        actions: NotesListActions,
+        fileGlob?: string
     ): vscode.WebviewPanel {
         const panel = vscode.window.createWebviewPanel(
             WEBVIEW_TYPES.NOTES_LIST,
-            `💬 Notes (${notes.length})`,
+            `💬 ${vscode.l10n.t('Notes ({count})', { count: notes.length })}`,
             vscode.ViewColumn.One,
             {
-                enableScripts: true,
+                ...this.getWebviewOptions(extensionUri),
                 retainContextWhenHidden: true,
             }
         );
 
-        panel.webview.html = this.getNotesListWebviewContent(notes);
+        this.restoreNotesListWebview(extensionUri, panel, notes, actions, fileGlob);
+        return panel;
+    }
+
+    /**
+     * Fill a notes list panel, new or restored after a window reload, and
+     * handle its messages. Search, filters and sort live in the webview state.
+     */
+    public static restoreNotesListWebview(
+        extensionUri: vscode.Uri,
+        panel: vscode.WebviewPanel,
+        notes: Note[],
+        actions: NotesListActions,
+        fileGlob?: string
+    ): void {
+        panel.title = `💬 ${vscode.l10n.t('Notes ({count})', { count: notes.length })}`;
+        panel.webview.options = this.getWebviewOptions(extensionUri);
+        panel.webview.html = this.getNotesListWebviewContent(panel.webview, extensionUri, notes, fileGlob);
 
-        panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+        this.onValidMessage(panel, ['openFile', 'deleteNote', 'setStatus'], message => {
             switch (message.command) {
                 case 'openFile':
-                    if (message.filePath !== undefined && message.line !== undefined) {
-                        onOpenFile(message.filePath, message.line);
-                    }
+                    actions.onOpenNote(message.noteId!);
                     break;
                 case 'deleteNote':
-                    if (message.filePath !== undefined && message.line !== undefined) {
-                        onDeleteNote(message.filePath, message.line);
-                        // Refresh the view after deletion
-                        setTimeout(() => {
-                            // This would need to be updated with fresh notes from the caller
-                        }, 100);
-                    }
+                    actions.onDeleteNote(message.noteId!);
+                    break;
+                case 'setStatus':
+                    actions.onSetStatus(message.noteId!, message.status!);
                     break;
             }
         });
+    }
 
-        return panel;
+    /**
+     * Send fresh notes to an open notes list, which keeps its search and filters
+     */
+    public static updateNotesListWebview(panel: vscode.WebviewPanel, notes: Note[]): void {
+        panel.title = `💬 ${vscode.l10n.t('Notes ({count})', { count: notes.length })}`;
+        panel.webview.postMessage({ command: 'setNotes', notes: notes.map(note => this.toNotesListItem(note)) });
+    }
+
+    /**
+     * Replace the file filter of an open notes list
+     */
+    public static filterNotesListWebview(panel: vscode.WebviewPanel, fileGlob: string): void {
+        panel.webview.postMessage({ command: 'setFileGlob', fileGlob });
+    }
+
+    /**
+     * Webview options allowing scripts, and local files only from the webview scripts folder
+     */
+    private static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(extensionUri, ...WEBVIEW_SCRIPTS_PATH)],
+        };
+    }
+
+    /**
+     * Handle the messages of a webview that match the schema of one of the
+     * given commands, ignoring any other message
+     */
+    private static onValidMessage(
+        panel: vscode.WebviewPanel,
+        commands: readonly WebviewCommand[],
+        handler: (message: WebviewMessage) => void | Promise<void>
+    ): void {
+        panel.webview.onDidReceiveMessage((received: unknown) => {
+            const message = parseWebviewMessage(received, commands);
+            if (!message) {
+                console.warn('[BUBULLE] Invalid webview message ignored:', received);
+                return;
+            }
+            return handler(message);
+        });
+    }
+
+    /**
+     * Build a webview page. Its Content Security Policy only allows the style
+     * and the script carrying the nonce of the page, so no inline handler or
+     * injected markup can run code.
+     */
+    private static getPageHtml(webview: vscode.Webview, extensionUri: vscode.Uri, page: WebviewPage): string {
+        const nonce = createNonce();
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...WEBVIEW_SCRIPTS_PATH, page.script));
+        // Escaping "<" keeps the data from closing its script element
+        const data = JSON.stringify(page.data).replace(/</g, '\\u003c');
+        const csp = [
+            `default-src 'none'`,
+            `img-src ${webview.cspSource}`,
+            `font-src ${webview.cspSource}`,
+            `style-src 'nonce-${nonce}'`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+
+        return `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="${csp}">
+                <style nonce="${nonce}">
+                    ${page.styles}
+                </style>
+            </head>
+            <body>
+                ${page.body}
+                <script id="webviewData" type="application/json">${data}</script>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>
+        `;
+    }
+
+    /**
+     * Data shared by the scripts of the note editors and the thread
+     */
+    private static getEditorData(): unknown {
+        return {
+            maxNoteLength: DEFAULT_CONFIG.MAX_NOTE_LENGTH,
+            messages: {
+                emptyNote: vscode.l10n.t(UI_STRINGS.PROMPTS.EMPTY_NOTE),
+                noteTooLong: vscode.l10n.t(UI_STRINGS.PROMPTS.NOTE_TOO_LONG, { max: DEFAULT_CONFIG.MAX_NOTE_LENGTH }),
+                emptyPreview: vscode.l10n.t('Nothing to preview'),
+            },
+        };
     }
 
     /**
      * Get webview content for adding a note
      */
-    private static getAddNoteWebviewContent(fileName: string, line: number): string {
-        return this.getNoteEditorTemplate({
-            title: '💬 Nouvelle note',
+    private static getAddNoteWebviewContent(
+        webview: vscode.Webview,
+        extensionUri: vscode.Uri,
+        fileName: string,
+        lineLabel: string,
+        code?: string
+    ): string {
+        return this.getNoteEditorTemplate(webview, extensionUri, {
+            title: `💬 ${vscode.l10n.t('New note')}`,
             fileName,
-            line: line + 1,
+            lineLabel,
             initialText: '',
-            saveButtonText: 'Sauvegarder'
+            saveButtonText: vscode.l10n.t('Save'),
+            suggestionText: code,
+            showLabels: true
         });
     }
 
     /**
-     * Get webview content for editing a note
+     * Get webview content for replying to a note
      */
-    private static getEditNoteWebviewContent(note: Note): string {
-        const fileName = path.basename(note.filePath) || 'Fichier inconnu';
+    private static getReplyWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, note: Note): string {
+        const fileName = path.basename(note.filePath) || vscode.l10n.t('Unknown file');
         
-        return this.getNoteEditorTemplate({
-            title: '💬 Modifier la note',
+        return this.getNoteEditorTemplate(webview, extensionUri, {
+            title: `💬 ${vscode.l10n.t('Reply')}`,
             fileName,
-            line: note.line + 1,
-            initialText: note.text,
-            saveButtonText: 'Sauvegarder'
+            lineLabel: getNoteLocationLabel(note),
+            initialText: '',
+            saveButtonText: vscode.l10n.t('Reply')
         });
     }
 
+    /**
+     * Get webview content for a note thread
+     */
+    private static getThreadWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri, note: Note): string {
+        const fileName = getRelativeDisplayPath(note.filePath);
+        const editable = canEditNote(note);
+        const commentsHtml = note.comments.map(comment => this.getCommentHtml(comment, editable)).join('');
+        const replyHtml = editable
+            ? `
+                <textarea id="replyText" placeholder="${vscode.l10n.t('Reply...')}"></textarea>
+                <div class="buttons">
+                    <button class="save-btn" data-action="reply">${vscode.l10n.t('Reply')}</button>
+                    <button class="cancel-btn" data-action="close">${vscode.l10n.t('Close')}</button>
+                </div>`
+            : `
+                <div class="file-info">
+                    ${escapeHtml(vscode.l10n.t(UI_STRINGS.ERRORS.DRAFT_READ_ONLY, { author: note.comments[0].author }))}
+                </div>
+                <div class="buttons">
+                    <button class="cancel-btn" data-action="close">${vscode.l10n.t('Close')}</button>
+                </div>`;
+
+        return this.getPageHtml(webview, extensionUri, {
+            styles: this.getCommonStyles() + this.getNoteEditorStyles() + this.getThreadStyles(),
+            script: 'thread.js',
+            data: this.getEditorData(),
+            body: `
+                <div class="header">
+                    <h2>💬 ${vscode.l10n.t('Discussion')}</h2>
+                    <div class="file-info">
+                        ${escapeHtml(fileName)} • ${getNoteLocationLabel(note)}
+                    </div>
+                </div>
+
+                ${this.getSuggestionHtml(note, editable)}
+
+                <div class="thread">
+                    ${commentsHtml}
+                </div>
+                ${replyHtml}
+            `,
+        });
+    }
+
+    /**
+     * Get HTML for the suggestion of a note: a diff with apply, preview and edit actions
+     */
+    private static getSuggestionHtml(note: Note, editable: boolean): string {
+        if (!note.suggestion) {
+            return '';
+        }
+
+        const diffHtml = formatSuggestionDiff(note.suggestion.original, note.suggestion.replacement)
+            .map(line => {
+                const lineClass = line.startsWith('+') ? 'diff-added' : line.startsWith('-') ? 'diff-removed' : '';
+                return `<span class="${lineClass}">${escapeHtml(line)}</span>`;
+            })
+            .join('\n');
+
+        const status = note.suggestion.appliedAt
+            ? `<span class="suggestion-status">${vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_APPLIED_LABEL)} • ${formatTimestamp(note.suggestion.appliedAt)}</span>`
+            : '';
+
+        const pendingActions = editable && hasPendingSuggestion(note)
+            ? `
+                        <button class="action-btn" data-action="editSuggestion" title="${vscode.l10n.t('Edit the suggestion')}">${vscode.l10n.t('Edit')}</button>
+                        <button data-action="applySuggestion" title="${vscode.l10n.t('Replace the code with the suggestion and resolve the note')}">${vscode.l10n.t('Apply suggestion')}</button>`
+            : '';
+
+        return `
+            <div class="suggestion">
+                <div class="comment-header">
+                    <span class="comment-author">${vscode.l10n.t(UI_STRINGS.INFO.SUGGESTION_LABEL)}</span>
+                    ${status}
+                    <div class="comment-actions">
+                        <button class="action-btn" data-action="previewSuggestion" title="${vscode.l10n.t('Compare the current file with the changed file')}">${vscode.l10n.t('View diff')}</button>
+                        ${pendingActions}
+                    </div>
+                </div>
+                <pre class="suggestion-diff">${diffHtml}</pre>
+                <div class="suggestion-editor" hidden>
+                    <textarea class="code-input" spellcheck="false">${escapeHtml(note.suggestion.replacement)}</textarea>
+                    <div class="buttons">
+                        <button data-action="saveSuggestion">${vscode.l10n.t('Save')}</button>
+                        <button class="cancel-btn" data-action="cancelSuggestion">${vscode.l10n.t('Cancel')}</button>
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
+    /**
+     * Get HTML for a single comment of a thread
+     */
+    private static getCommentHtml(comment: NoteComment, editable: boolean): string {
+        const edited = comment.editedAt ? ` ${vscode.l10n.t(UI_STRINGS.INFO.EDITED_LABEL)}` : '';
+        const commentActions = editable
+            ? `
+                    <div class="comment-actions">
+                        <button class="action-btn" data-action="editComment" title="${vscode.l10n.t('Edit the comment')}">${vscode.l10n.t('Edit')}</button>
+                        <button class="action-btn delete-btn" data-action="deleteComment" title="${vscode.l10n.t('Delete the comment')}">${vscode.l10n.t('Delete')}</button>
+                    </div>`
+            : '';
+
+        return `
+            <div class="comment" data-comment-id="${escapeHtml(comment.id)}">
+                <div class="comment-header">
+                    <span class="comment-author">${escapeHtml(comment.author)}</span>
+                    <span class="comment-date">${formatTimestamp(comment.createdAt)}${edited}</span>${commentActions}
+                </div>
+                <div class="comment-body markdown">${renderMarkdown(comment.body)}</div>
+                <div class="comment-editor" hidden>
+                    <textarea>${escapeHtml(comment.body)}</textarea>
+                    <div class="buttons">
+                        <button data-action="saveComment">${vscode.l10n.t('Save')}</button>
+                        <button class="cancel-btn" data-action="cancelEdit">${vscode.l10n.t('Cancel')}</button>
+                    </div>
+                </div>
+            </div>
+        `;
+    }
+
     /**
      * Get note editor template
      */
-    private static getNoteEditorTemplate(config: {
+    private static getNoteEditorTemplate(webview: vscode.Webview, extensionUri: vscode.Uri, config: {
         title: string;
         fileName: string;
-        line: number;
+        lineLabel: string;
         initialText: string;
         saveButtonText: string;
+        /** Code to pre-fill the suggestion with; no suggestion can be written without it */
+        suggestionText?: string;
+        /** Ask for the severity and the tags of a new note */
+        showLabels?: boolean;
     }): string {
-        return `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <style>
-                    ${this.getCommonStyles()}
-                    ${this.getNoteEditorStyles()}
-                </style>
-            </head>
-            <body>
+        const severityOptions = NOTE_SEVERITIES
+            .map(severity => `<option value="${severity}">${getSeverityLabel(severity)}</option>`)
+            .join('');
+        const labelsHtml = config.showLabels
+            ? `
+                <div class="labels-section">
+                    <label>${vscode.l10n.t('Severity')} <select id="severity">${severityOptions}</select></label>
+                    <input id="tags" type="text" placeholder="${vscode.l10n.t('Tags: security, perf...')}">
+                </div>`
+            : '';
+
+        const suggestionHtml = config.suggestionText !== undefined
+            ? `
+                <div class="suggestion-section">
+                    <button class="cancel-btn" data-action="toggleSuggestion">${vscode.l10n.t('Suggest a code change')}</button>
+                    <div id="suggestionEditor" hidden>
+                        <div class="file-info">${vscode.l10n.t('Code suggested in place of the annotated code:')}</div>
+                        <textarea id="suggestionText" class="code-input" spellcheck="false">${escapeHtml(config.suggestionText)}</textarea>
+                    </div>
+                </div>`
+            : '';
+
+        return this.getPageHtml(webview, extensionUri, {
+            styles: this.getCommonStyles() + this.getNoteEditorStyles(),
+            script: 'noteEditor.js',
+            data: this.getEditorData(),
+            body: `
                 <div class="header">
                     <h2>${config.title}</h2>
                     <div class="file-info">
-                        ${config.fileName} • Ligne ${config.line}
+                        ${escapeHtml(config.fileName)} • ${config.lineLabel}
                     </div>
                 </div>
                 
-                <textarea id="noteText" placeholder="Tapez votre note ici...">${config.initialText}</textarea>
+                <div class="editor-tabs">
+                    <button id="writeTab" class="tab active" data-action="write">${vscode.l10n.t('Write')}</button>
+                    <button id="previewTab" class="tab" data-action="preview">${vscode.l10n.t('Preview')}</button>
+                </div>
+                <textarea id="noteText" placeholder="${vscode.l10n.t('Type your note here... (Markdown supported)')}">${escapeHtml(config.initialText)}</textarea>
+                <div id="preview" class="preview markdown" hidden></div>
                 <div class="char-counter">
-                    <span id="charCount">${config.initialText.length}</span>/${DEFAULT_CONFIG.MAX_NOTE_LENGTH} caractères
+                    <span id="charCount">${config.initialText.length}</span>/${DEFAULT_CONFIG.MAX_NOTE_LENGTH} ${vscode.l10n.t('characters')}
                 </div>
+                ${labelsHtml}
+                ${suggestionHtml}
                 
                 <div class="buttons">
-                    <button class="save-btn" onclick="saveNote()">${config.saveButtonText}</button>
-                    <button class="cancel-btn" onclick="cancel()">Annuler</button>
+                    <button class="save-btn" data-action="save">${config.saveButtonText}</button>
+                    <button class="cancel-btn" data-action="cancel">${vscode.l10n.t('Cancel')}</button>
                 </div>
-
-                <script>
-                    ${this.getNoteEditorScript()}
-                </script>
-            </body>
-            </html>
-        `;
+            `,
+        });
     }
 
     /**
-     * Get webview content for notes list
+     * Get webview content for notes list. Notes are rendered by the webview
+     * script from the JSON data embedded in the page, starting with the given
+     * file filter instead of the saved one.
      */
-    private static getNotesListWebviewContent(notes: Note[]): string {
-        const groupedNotes = this.groupNotesByFile(notes);
-        const filesHtml = Object.entries(groupedNotes)
-            .map(([filePath, fileNotes]) => {
-                const relativeFilePath = getRelativeDisplayPath(filePath);
-                const notesHtml = fileNotes
-                    .map(note => this.getNoteItemHtml(note))
-                    .join('');
-
-                return `
-                <div class="file-group">
-                    <div class="file-header">
-                        <span class="codicon codicon-file"></span>
-                        <span class="file-path">${relativeFilePath}</span>
-                        <span class="note-count">${fileNotes.length} note${fileNotes.length > 1 ? 's' : ''}</span>
-                    </div>
-                    <div class="file-notes">
-                        ${notesHtml}
-                    </div>
-                </div>
-            `;
-            })
+    private static getNotesListWebviewContent(
+        webview: vscode.Webview,
+        extensionUri: vscode.Uri,
+        notes: Note[],
+        fileGlob?: string
+    ): string {
+        const statusOptions = Object.entries(getStatusLabels())
+            .map(([status, label]) => `<option value="${status}">${label}</option>`)
+            .join('');
+        const severityOptions = NOTE_SEVERITIES
+            .map(severity => `<option value="${severity}">${getSeverityLabel(severity)}</option>`)
             .join('');
 
-        return `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <style>
-                    ${this.getCommonStyles()}
-                    ${this.getNotesListStyles()}
-                </style>
-            </head>
-            <body>
-                <h1>💬 Mes Notes</h1>
-                ${notes.length > 0 ? filesHtml : '<div class="empty-state">Aucune note trouvée</div>'}
-                
-                <script>
-                    ${this.getNotesListScript()}
-                </script>
-            </body>
-            </html>
-        `;
-    }
-
-    /**
-     * Get HTML for a single note item
-     */
-    private static getNoteItemHtml(note: Note): string {
-        return `
-            <div class="note-item" data-file="${note.filePath}" data-line="${note.line}">
-                <div class="note-header">
-                    <span class="line-number">Ligne ${note.line + 1}</span>
-                    <div class="note-actions">
-                        <button class="action-btn open-btn" onclick="openFile('${note.filePath}', ${note.line})" title="Ouvrir le fichier">
-                            <span class="codicon codicon-go-to-file"></span>
-                        </button>
-                        <button class="action-btn delete-btn" onclick="deleteNote('${note.filePath}', ${note.line})" title="Supprimer la note">
-                            <span class="codicon codicon-trash"></span>
-                        </button>
+        return this.getPageHtml(webview, extensionUri, {
+            styles: this.getCommonStyles() + this.getNotesListStyles(),
+            script: 'notesList.js',
+            data: {
+                notes: notes.map(note => this.toNotesListItem(note)),
+                fileGlob,
+                statusLabels: getStatusLabels(),
+                severityLabels: getSeverityLabels(),
+                messages: {
+                    noMatchingNotes: vscode.l10n.t('No notes match the search'),
+                    noNotes: vscode.l10n.t(UI_STRINGS.INFO.NO_NOTES_FOUND),
+                    oneNote: vscode.l10n.t('1 note'),
+                    notesCount: vscode.l10n.t('{count} notes'),
+                    openFile: vscode.l10n.t('Open the file'),
+                    resolveNote: vscode.l10n.t('Resolve the note'),
+                    reopenNote: vscode.l10n.t('Reopen the note'),
+                    deleteNote: vscode.l10n.t('Delete the note'),
+                },
+            },
+            body: `
+                <div class="list-header">
+                    <h1>💬 ${vscode.l10n.t('My Notes')}</h1>
+                    <span id="resultCount" class="note-count"></span>
+                </div>
+                <div class="filters">
+                    <div class="search-row">
+                        <input id="search" type="search" placeholder="${vscode.l10n.t('Search notes and replies')}">
+                        <label class="regex-toggle" title="${vscode.l10n.t('Regular expression')}">
+                            <input id="regex" type="checkbox"> .*
+                        </label>
+                    </div>
+                    <div class="filter-row">
+                        <input id="fileGlob" type="text" placeholder="${vscode.l10n.t('Files: src/**/*.ts')}">
+                        <select id="author"><option value="">${vscode.l10n.t('All authors')}</option></select>
+                        <select id="status">
+                            <option value="">${vscode.l10n.t('All statuses')}</option>
+                            ${statusOptions}
+                        </select>
+                        <select id="severity">
+                            <option value="">${vscode.l10n.t('All severities')}</option>
+                            ${severityOptions}
+                        </select>
+                        <select id="tag"><option value="">${vscode.l10n.t('All tags')}</option></select>
+                        <label>${vscode.l10n.t('From')} <input id="from" type="date"></label>
+                        <label>${vscode.l10n.t('to')} <input id="to" type="date"></label>
+                        <select id="sort">
+                            <option value="file">${vscode.l10n.t('Sort by file')}</option>
+                            <option value="newest">${vscode.l10n.t('Newest first')}</option>
+                            <option value="oldest">${vscode.l10n.t('Oldest first')}</option>
+                        </select>
                     </div>
                 </div>
-                <div class="note-text">${escapeHtml(note.text)}</div>
-                <div class="note-timestamp">${new Date(note.timestamp).toLocaleString()}</div>
-            </div>
-        `;
+                <div id="notes"></div>
+            `,
+        });
     }
 
     /**
-     * Group notes by file path
+     * Get what the notes list needs to filter, sort and render a note
      */
-    private static groupNotesByFile(notes: Note[]): Record<string, Note[]> {
-        return notes.reduce((groups, note) => {
-            const filePath = note.filePath;
-            if (!groups[filePath]) {
-                groups[filePath] = [];
-            }
-            groups[filePath].push(note);
-            return groups;
-        }, {} as Record<string, Note[]>);
+    private static toNotesListItem(note: Note): NotesListItem {
+        const [first, ...replies] = note.comments;
+        return {
+            id: note.id,
+            filePath: note.filePath,
+            displayPath: getRelativeDisplayPath(note.filePath).split(path.sep).join('/'),
+            line: note.line,
+            locationLabel: getNoteLocationLabel(note),
+            status: note.status,
+            severity: note.severity,
+            tags: note.tags ?? [],
+            author: first?.author ?? '',
+            text: getNoteText(note),
+            textHtml: renderMarkdown(getNoteText(note)),
+            replies: replies.map(reply => ({
+                author: reply.author,
+                body: reply.body,
+                bodyHtml: renderMarkdown(reply.body),
+            })),
+            timestamp: note.timestamp,
+            timestampLabel: formatTimestamp(note.timestamp),
+        };
     }
 
     /**
@@ -309,6 +705,57 @@ export class WebviewManager {
                 font-family: codicon;
                 font-size: 14px;
             }
+            
+            .markdown {
+                line-height: 1.4;
+                overflow-wrap: anywhere;
+            }
+            
+            .markdown > :first-child {
+                margin-top: 0;
+            }
+            
+            .markdown > :last-child {
+                margin-bottom: 0;
+            }
+            
+            .markdown p,
+            .markdown ul,
+            .markdown ol,
+            .markdown pre,
+            .markdown blockquote {
+                margin: 0 0 8px 0;
+            }
+            
+            .markdown code {
+                font-family: var(--vscode-editor-font-family);
+                font-size: 0.95em;
+                padding: 1px 4px;
+                border-radius: 3px;
+                background: var(--vscode-textCodeBlock-background);
+            }
+            
+            .markdown pre {
+                padding: 8px;
+                overflow-x: auto;
+                border-radius: 4px;
+                background: var(--vscode-textCodeBlock-background);
+            }
+            
+            .markdown pre code {
+                padding: 0;
+                background: transparent;
+            }
+            
+            .markdown blockquote {
+                padding-left: 10px;
+                border-left: 3px solid var(--vscode-textBlockQuote-border);
+                color: var(--vscode-descriptionForeground);
+            }
+            
+            .markdown a {
+                color: var(--vscode-textLink-foreground);
+            }
         `;
     }
 
@@ -349,6 +796,33 @@ export class WebviewManager {
                 outline: 1px solid var(--vscode-focusBorder);
             }
             
+            .editor-tabs {
+                display: flex;
+                gap: 4px;
+                margin-bottom: 6px;
+            }
+            
+            .editor-tabs .tab {
+                margin: 0;
+                padding: 4px 12px;
+                background: transparent;
+                color: var(--vscode-foreground);
+                border-bottom: 2px solid transparent;
+                border-radius: 0;
+            }
+            
+            .editor-tabs .tab.active {
+                border-bottom-color: var(--vscode-focusBorder);
+            }
+            
+            .preview {
+                min-height: 100px;
+                padding: 15px;
+                border: 1px solid var(--vscode-input-border);
+                border-radius: 4px;
+                box-sizing: border-box;
+            }
+            
             .buttons {
                 margin-top: 20px;
                 display: flex;
@@ -384,6 +858,41 @@ export class WebviewManager {
             .error {
                 color: var(--vscode-errorForeground);
             }
+            
+            .labels-section {
+                margin-top: 15px;
+                display: flex;
+                gap: 10px;
+                align-items: center;
+            }
+            
+            select,
+            input[type="text"] {
+                padding: 6px 8px;
+                border: 1px solid var(--vscode-input-border);
+                background: var(--vscode-input-background);
+                color: var(--vscode-input-foreground);
+                border-radius: 4px;
+            }
+            
+            .labels-section input {
+                flex-grow: 1;
+            }
+            
+            .suggestion-section {
+                margin-top: 15px;
+            }
+            
+            .suggestion-section .file-info {
+                margin-top: 10px;
+            }
+            
+            textarea.code-input {
+                font-family: var(--vscode-editor-font-family);
+                font-size: var(--vscode-editor-font-size);
+                white-space: pre;
+                height: 150px;
+            }
         `;
     }
 
@@ -392,11 +901,87 @@ export class WebviewManager {
      */
     private static getNotesListStyles(): string {
         return `
+            .list-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                border-bottom: 1px solid var(--vscode-panel-border);
+                margin-bottom: 25px;
+            }
+            
             h1 {
                 color: var(--vscode-foreground);
-                border-bottom: 1px solid var(--vscode-panel-border);
                 padding-bottom: 10px;
-                margin-bottom: 25px;
+            }
+            
+            .note-item.resolved,
+            .note-item.wontFix {
+                opacity: 0.6;
+            }
+            
+            .note-status {
+                font-size: 0.85em;
+                padding: 2px 8px;
+                border-radius: 10px;
+                background: var(--vscode-badge-background);
+                color: var(--vscode-badge-foreground);
+            }
+            
+            .filters {
+                display: flex;
+                flex-direction: column;
+                gap: 8px;
+                margin-bottom: 20px;
+            }
+            
+            .search-row,
+            .filter-row {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: center;
+                gap: 8px;
+            }
+            
+            .filters input,
+            .filters select {
+                padding: 4px 8px;
+                border: 1px solid var(--vscode-dropdown-border);
+                background: var(--vscode-dropdown-background);
+                color: var(--vscode-dropdown-foreground);
+                border-radius: 3px;
+            }
+            
+            #search {
+                flex-grow: 1;
+                background: var(--vscode-input-background);
+                color: var(--vscode-input-foreground);
+                border-color: var(--vscode-input-border);
+            }
+            
+            #search.invalid {
+                outline: 1px solid var(--vscode-inputValidation-errorBorder);
+            }
+            
+            .regex-toggle {
+                font-family: var(--vscode-editor-font-family);
+                white-space: nowrap;
+            }
+            
+            .note-severity,
+            .note-tag {
+                font-size: 0.85em;
+                padding: 2px 8px;
+                border-radius: 10px;
+                border: 1px solid var(--vscode-panel-border);
+            }
+            
+            .note-severity.nit { color: #6a737d; }
+            .note-severity.suggestion { color: #28a745; }
+            .note-severity.issue { color: #e36209; }
+            .note-severity.blocker { color: #d73a49; font-weight: 600; }
+            
+            .note-tag {
+                color: var(--vscode-textLink-foreground);
             }
             
             .file-group {
@@ -490,8 +1075,20 @@ export class WebviewManager {
                 background: var(--vscode-textBlockQuote-background);
                 border-left: 3px solid #0366d6;
                 border-radius: 0 4px 4px 0;
-                white-space: pre-wrap;
-                line-height: 1.4;
+            }
+            
+            .note-replies {
+                margin: 0 0 10px 15px;
+            }
+            
+            .note-reply {
+                padding: 6px 12px;
+                border-left: 2px solid var(--vscode-panel-border);
+            }
+            
+            .reply-author {
+                font-weight: 600;
+                margin-bottom: 2px;
             }
             
             .note-timestamp { 
@@ -509,83 +1106,90 @@ export class WebviewManager {
     }
 
     /**
-     * JavaScript for note editor
+     * CSS styles for note threads
      */
-    private static getNoteEditorScript(): string {
+    private static getThreadStyles(): string {
         return `
-            const vscode = acquireVsCodeApi();
-            const textarea = document.getElementById('noteText');
-            const charCount = document.getElementById('charCount');
+            .thread {
+                margin-bottom: 20px;
+            }
             
-            textarea.focus();
-            textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+            .comment {
+                margin-bottom: 12px;
+                padding: 12px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 6px;
+            }
             
-            textarea.addEventListener('input', function() {
-                const length = this.value.length;
-                charCount.textContent = length;
-                charCount.className = length > ${DEFAULT_CONFIG.MAX_NOTE_LENGTH} ? 'char-counter error' : 'char-counter';
-            });
+            .comment-header {
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                margin-bottom: 8px;
+            }
             
-            textarea.addEventListener('keydown', function(e) {
-                if (e.ctrlKey && e.key === 'Enter') {
-                    saveNote();
-                }
-                if (e.key === 'Escape') {
-                    cancel();
-                }
-            });
+            .comment-author {
+                font-weight: 600;
+            }
             
-            function saveNote() {
-                const text = textarea.value.trim();
-                console.log('[BUBULLE] saveNote() called with text:', text);
-                if (!text) {
-                    console.log('[BUBULLE] Empty text, showing alert');
-                    alert('${UI_STRINGS.PROMPTS.EMPTY_NOTE}');
-                    return;
-                }
-                if (text.length > ${DEFAULT_CONFIG.MAX_NOTE_LENGTH}) {
-                    console.log('[BUBULLE] Text too long, showing alert');
-                    alert('${UI_STRINGS.PROMPTS.NOTE_TOO_LONG}');
-                    return;
-                }
-                console.log('[BUBULLE] Sending save message to extension');
-                vscode.postMessage({
-                    command: 'save',
-                    text: text
-                });
+            .comment-date {
+                font-size: 0.85em;
+                color: var(--vscode-descriptionForeground);
+                flex-grow: 1;
             }
             
-            function cancel() {
-                vscode.postMessage({
-                    command: 'cancel'
-                });
+            .comment-actions {
+                display: flex;
+                gap: 5px;
+                opacity: 0.7;
             }
-        `;
-    }
-
-    /**
-     * JavaScript for notes list
-     */
-    private static getNotesListScript(): string {
-        return `
-            const vscode = acquireVsCodeApi();
-            
-            function openFile(filePath, line) {
-                vscode.postMessage({
-                    command: 'openFile',
-                    filePath: filePath,
-                    line: line
-                });
-            }
-            
-            function deleteNote(filePath, line) {
-                if (confirm('${UI_STRINGS.PROMPTS.DELETE_FROM_LIST}')) {
-                    vscode.postMessage({
-                        command: 'deleteNote',
-                        filePath: filePath,
-                        line: line
-                    });
-                }
+            
+            .comment:hover .comment-actions {
+                opacity: 1;
+            }
+            
+            .action-btn {
+                background: transparent;
+                padding: 4px 6px;
+                font-size: 12px;
+            }
+            
+            .comment-editor textarea {
+                height: 100px;
+            }
+            
+            #replyText {
+                height: 100px;
+            }
+            
+            .suggestion {
+                margin-bottom: 20px;
+                padding: 12px;
+                border: 1px solid var(--vscode-textLink-foreground);
+                border-radius: 6px;
+            }
+            
+            .suggestion-status {
+                font-size: 0.85em;
+                color: var(--vscode-descriptionForeground);
+                flex-grow: 1;
+            }
+            
+            .suggestion-diff {
+                margin: 0;
+                padding: 8px;
+                overflow-x: auto;
+                font-family: var(--vscode-editor-font-family);
+                background: var(--vscode-textCodeBlock-background);
+                border-radius: 4px;
+            }
+            
+            .diff-added {
+                color: var(--vscode-gitDecoration-addedResourceForeground);
+            }
+            
+            .diff-removed {
+                color: var(--vscode-gitDecoration-deletedResourceForeground);
             }
         `;
     }